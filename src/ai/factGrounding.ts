@@ -0,0 +1,800 @@
+import dotenv from 'dotenv';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import {
+  Article,
+  CitationStatus,
+  GroundingReport,
+  PodcastScript,
+  ScriptCitation,
+  ScriptTurn,
+  ScriptViolation,
+} from '../types/types';
+import { loadShowConfig } from '../core/showConfig';
+import { BudgetExceededError } from '../core/runCosts';
+import { tokenize } from '../utils/textSimilarity';
+import { escapeHtml } from '../utils/textUtils';
+import { getLlmProvider } from './llmProvider';
+import {
+  requestStructuredOutput,
+  checkIdList,
+  OutputSchema,
+} from './structuredOutput';
+import { formatTranscript } from './podcastGenerator';
+import { validateScript } from './scriptValidator';
+
+// Load environment variables
+dotenv.config();
+
+// Configure dayjs plugins
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Fact grounding
+ *
+ * Ties every sentence of a generated script to the selected articles that
+ * support it. The LLM judges each sentence with a strict rubric (supported,
+ * unsupported, no claim) and suggests a rewrite limited to the articles for
+ * unsupported ones. A local lexical check independently looks for names and
+ * numbers that appear in no article, which catches what the model lets
+ * through. The result is a sentence-to-article citation map for the email and
+ * the article store. Rewrites that would break the script's rules (opening,
+ * closing, length) are reverted to flags, so the checked script still passes
+ * the validation it passed before.
+ */
+
+export type FactCheckMode = 'rewrite' | 'flag' | 'off';
+
+export const FACT_CHECK_MODES: FactCheckMode[] = ['rewrite', 'flag', 'off'];
+
+// Share of a sentence's content words an article must contain to be cited by the lexical check
+const LEXICAL_CITATION_MIN_OVERLAP = 0.5;
+
+// Small integers are usually counts ("three stories"), often spelled out in the articles
+const MIN_CHECKED_NUMBER = 10;
+
+// Sentences judged per LLM request; one verdict (and maybe a rewrite) per
+// sentence must fit the output limit, so long scripts are checked in batches
+const FACT_CHECK_BATCH_SIZE = 40;
+
+// Shortest shared prefix for two words to count as forms of the same name
+const MIN_STEM_LENGTH = 5;
+
+// Capitalized words that are not names
+const COMMON_CAPITALIZED = new Set(
+  [
+    'i ai a the and but so or today yesterday tomorrow',
+    'january february march april may june july august september october november december',
+    'monday tuesday wednesday thursday friday saturday sunday',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+// Abbreviations that end with a period without ending the sentence
+const ABBREVIATION_PATTERN =
+  /(?:\b(?:Mr|Mrs|Ms|Dr|Prof|Inc|Corp|Ltd|Co|vs|St|Jr|Sr|approx)|\b[A-Z](?:\.[A-Z])*|\be\.g|\bi\.e)\.$/;
+
+type Sentence = {
+  text: string;
+  block: number; // Paragraph (monologue) or turn (dialogue) the sentence belongs to
+  speaker?: string;
+};
+
+type SentenceVerdict = {
+  verdict: 'supported' | 'unsupported' | 'no-claim';
+  articleIds: string[];
+  rewrite?: string;
+};
+
+/**
+ * Returns the configured fact check mode (FACT_CHECK_MODE, default "rewrite")
+ * @throws Error when the value is not a known mode
+ */
+export function getFactCheckMode(): FactCheckMode {
+  const mode = (process.env.FACT_CHECK_MODE || 'rewrite').trim().toLowerCase();
+  if (!FACT_CHECK_MODES.includes(mode as FactCheckMode)) {
+    throw new Error(
+      `Unknown FACT_CHECK_MODE "${mode}". Expected one of: ${FACT_CHECK_MODES.join(', ')}`
+    );
+  }
+  return mode as FactCheckMode;
+}
+
+/**
+ * Splits text into sentences, keeping abbreviations like "U.S." or "Dr." intact
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  for (const piece of text.split(/(?<=[.!?…]["”’)]?)\s+/)) {
+    const previous = sentences[sentences.length - 1];
+    if (previous !== undefined && ABBREVIATION_PATTERN.test(previous)) {
+      sentences[sentences.length - 1] = `${previous} ${piece}`;
+    } else if (piece.trim()) {
+      sentences.push(piece.trim());
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Splits a script into sentences, remembering their paragraph or turn
+ */
+function splitScript(script: PodcastScript): Sentence[] {
+  const blocks: { text: string; speaker?: string }[] =
+    script.format === 'dialogue'
+      ? script.turns
+      : script.text.split(/\n{2,}/).map((text) => ({ text }));
+
+  return blocks.flatMap((block, index) =>
+    splitSentences(block.text).map((text) => ({
+      text,
+      block: index,
+      speaker: block.speaker,
+    }))
+  );
+}
+
+/**
+ * Normalizes digit groups ("1,200" -> "1200") so numbers match however they are written
+ */
+function normalizeNumbers(text: string): string {
+  return text.replace(/(\d),(?=\d{3}\b)/g, '$1');
+}
+
+/**
+ * Returns the numbers in a text, with digit groups normalized
+ */
+function findNumbers(text: string): string[] {
+  return normalizeNumbers(text).match(/\d+(?:\.\d+)?/g) || [];
+}
+
+/**
+ * Builds the text of an article the checks compare against
+ * (title, outlets, body and publication date, as the script prompt saw them)
+ */
+function articleText(article: Article, timezone: string): string {
+  return [
+    article.title,
+    article.source,
+    ...(article.relatedSources || []).map((related) => related.source),
+    article.content || article.summary,
+    article.pubDate ? dayjs(article.pubDate).tz(timezone).format('MMMM D') : '',
+  ].join(' ');
+}
+
+/**
+ * Splits text into lowercase words (no stopword removal), for name lookups
+ */
+function wordSet(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Returns true when the words contain the word or a form of it sharing its
+ * stem ("Europe" / "European", "Google" / "Google's")
+ */
+function hasRelatedWord(words: Set<string>, word: string): boolean {
+  if (words.has(word)) {
+    return true;
+  }
+  for (const candidate of words) {
+    if (
+      Math.min(candidate.length, word.length) >= MIN_STEM_LENGTH &&
+      (candidate.startsWith(word) || word.startsWith(candidate))
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Finds the names and numbers of a sentence that appear in none of the texts
+ * @param sentence - Script sentence
+ * @param corpus - Numbers and words of the article texts
+ * @param knownWords - Words that never need a source (show name, hosts, date)
+ * @returns The unmatched names and numbers, in order of appearance
+ */
+function findUnmatchedTerms(
+  sentence: string,
+  corpus: { numbers: Set<string>; words: Set<string> },
+  knownWords: Set<string>
+): string[] {
+  const unmatched: string[] = [];
+
+  for (const number of findNumbers(sentence)) {
+    if (
+      (number.includes('.') || parseFloat(number) >= MIN_CHECKED_NUMBER) &&
+      !corpus.numbers.has(number)
+    ) {
+      unmatched.push(number);
+    }
+  }
+
+  // Capitalized words, except the first word of the sentence
+  const firstWordAt = sentence.search(/[\p{L}\p{N}]/u);
+  for (const match of sentence.matchAll(/[\p{Lu}][\p{L}\p{N}&'’-]*/gu)) {
+    const name = match[0].replace(/['’]s$/, '');
+    const parts = name
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+    if (
+      match.index === firstWordAt ||
+      parts.every(
+        (part) =>
+          part.length < 2 || // Initials, e.g. "U.S."
+          COMMON_CAPITALIZED.has(part) ||
+          knownWords.has(part) ||
+          hasRelatedWord(corpus.words, part)
+      )
+    ) {
+      continue;
+    }
+    unmatched.push(name);
+  }
+
+  return Array.from(new Set(unmatched));
+}
+
+/**
+ * Cites the articles that contain most of a sentence's content words
+ */
+function findLexicalCitations(
+  sentence: string,
+  articles: { id: string; words: Set<string> }[]
+): string[] {
+  const tokens = Array.from(new Set(tokenize(sentence)));
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  return articles
+    .map((article) => ({
+      id: article.id,
+      overlap:
+        tokens.filter((token) => article.words.has(token)).length /
+        tokens.length,
+    }))
+    .filter((match) => match.overlap >= LEXICAL_CITATION_MIN_OVERLAP)
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, 2)
+    .map((match) => match.id);
+}
+
+/**
+ * Schema for the fact check answer: one verdict per sentence
+ */
+function verdictSchema(
+  sentenceCount: number,
+  candidateIds: string[]
+): OutputSchema<Map<number, SentenceVerdict>> {
+  return (value) => {
+    const entries =
+      value && typeof value === 'object'
+        ? (value as Record<string, unknown>).sentences
+        : undefined;
+    if (!Array.isArray(entries)) {
+      return {
+        ok: false,
+        problems: [
+          'The JSON must contain a "sentences" array of {"index", "verdict", "articleIds"} objects.',
+        ],
+      };
+    }
+
+    const problems: string[] = [];
+    const verdicts = new Map<number, SentenceVerdict>();
+
+    for (const entry of entries) {
+      const index = entry?.index;
+      if (!Number.isInteger(index) || index < 1 || index > sentenceCount) {
+        problems.push(
+          `"index" must be a sentence number from 1 to ${sentenceCount} (got ${JSON.stringify(index)}).`
+        );
+        continue;
+      }
+      if (verdicts.has(index)) {
+        problems.push(`Sentence ${index} has more than one entry.`);
+        continue;
+      }
+      if (!['supported', 'unsupported', 'no-claim'].includes(entry.verdict)) {
+        problems.push(
+          `Sentence ${index}: "verdict" must be "supported", "unsupported" or "no-claim".`
+        );
+        continue;
+      }
+      const articleIds = entry.articleIds ?? [];
+      if (
+        !Array.isArray(articleIds) ||
+        !articleIds.every((id) => typeof id === 'string')
+      ) {
+        problems.push(
+          `Sentence ${index}: "articleIds" must be an array of id strings.`
+        );
+        continue;
+      }
+      problems.push(
+        ...checkIdList(articleIds, candidateIds).map(
+          (problem) => `Sentence ${index}: ${problem}`
+        )
+      );
+      if (entry.verdict === 'supported' && articleIds.length === 0) {
+        problems.push(
+          `Sentence ${index} is "supported" but cites no article; cite the supporting ids or change the verdict.`
+        );
+      }
+      if (entry.rewrite !== undefined && typeof entry.rewrite !== 'string') {
+        problems.push(`Sentence ${index}: "rewrite" must be a string.`);
+      }
+
+      verdicts.set(index, {
+        verdict: entry.verdict,
+        articleIds,
+        rewrite:
+          entry.verdict === 'unsupported' && typeof entry.rewrite === 'string'
+            ? entry.rewrite.trim()
+            : undefined,
+      });
+    }
+
+    const missing = Array.from(
+      { length: sentenceCount },
+      (_, i) => i + 1
+    ).filter((index) => !verdicts.has(index));
+    if (missing.length > 0) {
+      problems.push(`These sentences have no entry: ${missing.join(', ')}.`);
+    }
+
+    return problems.length > 0
+      ? { ok: false, problems }
+      : { ok: true, value: verdicts };
+  };
+}
+
+/**
+ * Asks the LLM to judge a batch of sentences against the articles
+ * @returns Verdict per sentence number (1-based within the batch)
+ * @throws StructuredOutputError when no valid answer was produced within the retries
+ */
+async function checkSentencesWithAI(
+  sentences: Sentence[],
+  articles: Article[],
+  timezone: string
+): Promise<Map<number, SentenceVerdict>> {
+  const llm = getLlmProvider();
+
+  const articlesText = articles
+    .map(
+      (article) =>
+        `[${article.id}] ${article.source} — ${article.title}` +
+        (article.pubDate
+          ? ` (published ${dayjs(article.pubDate).tz(timezone).format('MMMM D')})`
+          : '') +
+        `\n${article.content || article.summary}`
+    )
+    .join('\n\n');
+  const sentencesText = sentences
+    .map((sentence, index) => `${index + 1}. ${sentence.text}`)
+    .join('\n');
+
+  const prompt = `Check every numbered sentence of a podcast script against the source articles below.
+
+Rubric:
+- "supported": every fact in the sentence (names, numbers, dates, who did what) is stated in the cited articles. List the ids of those articles in "articleIds".
+- "unsupported": at least one fact is missing from the articles or contradicts them. This includes names, numbers and quotes that no article contains, even if they are true.
+- "no-claim": greetings, sign-offs, transitions, questions and opinions that state no checkable fact. Mentioning which outlet reported a story is a claim.
+For every unsupported sentence, add "rewrite": the same sentence limited to what the articles say, in the same spoken style, or "" when nothing of it can be kept.
+
+ARTICLES:
+${articlesText}
+
+SENTENCES:
+${sentencesText}
+
+Return only JSON in this format, with one entry per sentence:
+{"sentences": [{"index": 1, "verdict": "supported", "articleIds": ["<article id>"]}, {"index": 2, "verdict": "unsupported", "articleIds": [], "rewrite": "..."}]}`;
+
+  return requestStructuredOutput(llm, {
+    label: 'Fact check',
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are a meticulous fact checker for a news podcast. You only accept facts that the provided articles state.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    schema: verdictSchema(
+      sentences.length,
+      articles.map((article) => article.id)
+    ),
+    maxTokens: 4000,
+    temperature: 0,
+  });
+}
+
+/**
+ * Rebuilds the script text (or turns) from its checked sentences
+ */
+function rebuildScript(
+  script: PodcastScript,
+  sentences: Sentence[],
+  texts: string[]
+): Pick<PodcastScript, 'text' | 'turns'> {
+  const blocks = new Map<number, string[]>();
+  sentences.forEach((sentence, index) => {
+    const block = blocks.get(sentence.block) || [];
+    if (texts[index]) {
+      block.push(texts[index]);
+    }
+    blocks.set(sentence.block, block);
+  });
+  const blockText = (index: number): string =>
+    (blocks.get(index) || []).join(' ');
+
+  if (script.format === 'dialogue') {
+    const turns: ScriptTurn[] = script.turns
+      .map((turn, index) => ({ speaker: turn.speaker, text: blockText(index) }))
+      .filter((turn) => turn.text);
+    return { text: formatTranscript(turns), turns };
+  }
+
+  return {
+    text: Array.from(blocks.keys()).map(blockText).filter(Boolean).join('\n\n'),
+    turns: [],
+  };
+}
+
+/**
+ * Returns the script text (or turns) with the checked sentences
+ */
+function applyCitations(
+  script: PodcastScript,
+  sentences: Sentence[],
+  citations: ScriptCitation[]
+): Pick<PodcastScript, 'text' | 'turns'> {
+  return rebuildScript(
+    script,
+    sentences,
+    citations.map((citation) =>
+      citation.status === 'removed' ? '' : citation.sentence
+    )
+  );
+}
+
+/**
+ * Finds the script rules that the rewrites break and the generated script did not
+ * @returns The newly broken rules (empty when the rewritten script is fine)
+ */
+function findBrokenRules(
+  script: PodcastScript,
+  rewritten: Pick<PodcastScript, 'text' | 'turns'>
+): ScriptViolation['rule'][] {
+  if (!script.validation) {
+    return [];
+  }
+
+  const { violations } = validateScript(
+    script.format === 'dialogue'
+      ? { format: 'dialogue', turns: rewritten.turns }
+      : { format: 'monologue', text: rewritten.text },
+    script.validation.expectations
+  );
+  const alreadyBroken = new Set(
+    script.validation.remaining.map((violation) => violation.rule)
+  );
+  return Array.from(
+    new Set(
+      violations
+        .filter(
+          (violation) => !violation.fixed && !alreadyBroken.has(violation.rule)
+        )
+        .map((violation) => violation.rule)
+    )
+  );
+}
+
+/**
+ * Checks a generated script against the articles it was written from
+ * In "rewrite" mode unsupported sentences are replaced by the model's
+ * article-limited rewrite (or dropped); in "flag" mode they are only flagged.
+ * When the rewrites would break a rule the script passed (e.g. drop the
+ * opening line or fall below the word target), they are all reverted and
+ * flagged instead. Sentences with names or numbers found in no article are
+ * always flagged.
+ * @param script - Validated podcast script
+ * @param articles - Articles the script was generated from
+ * @returns The script with the checked text and its grounding report (unchanged when FACT_CHECK_MODE=off)
+ */
+export async function groundPodcastScript(
+  script: PodcastScript,
+  articles: Article[]
+): Promise<PodcastScript> {
+  const mode = getFactCheckMode();
+  if (mode === 'off') {
+    console.log('⏭️ Fact check skipped (FACT_CHECK_MODE=off)');
+    return script;
+  }
+
+  const show = loadShowConfig();
+  const sentences = splitScript(script);
+  console.log(
+    `🔎 Fact-checking ${sentences.length} sentences against ${articles.length} articles in ${Math.ceil(sentences.length / FACT_CHECK_BATCH_SIZE)} request(s) (${mode} mode)...`
+  );
+
+  // Lexical corpus: everything the articles say, plus the show's own words
+  // and today's date, which need no source
+  const texts = articles.map((article) => articleText(article, show.timezone));
+  const knownText = [
+    show.showName,
+    show.spokenShowName,
+    show.tagline,
+    show.audienceName,
+    ...show.hosts.map((host) => host.name),
+    dayjs().tz(show.timezone).format('MMMM D'),
+  ].join(' ');
+  const corpus = {
+    numbers: new Set(findNumbers(`${texts.join(' ')} ${knownText}`)),
+    words: wordSet(texts.join(' ')),
+  };
+  const knownWords = wordSet(knownText);
+  const articleWords = articles.map((article, index) => ({
+    id: article.id,
+    words: new Set(tokenize(texts[index])),
+  }));
+
+  // Verdicts by sentence number (1-based); sentences of a failed batch have none
+  const verdicts = new Map<number, SentenceVerdict>();
+  for (
+    let start = 0;
+    start < sentences.length;
+    start += FACT_CHECK_BATCH_SIZE
+  ) {
+    const batch = sentences.slice(start, start + FACT_CHECK_BATCH_SIZE);
+    try {
+      const batchVerdicts = await checkSentencesWithAI(
+        batch,
+        articles,
+        show.timezone
+      );
+      batchVerdicts.forEach((verdict, index) =>
+        verdicts.set(start + index, verdict)
+      );
+    } catch (error) {
+      // The lexical check must not hide a run that is over budget
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      console.error(
+        `❌ LLM fact check failed for sentences ${start + 1}–${start + batch.length}, falling back to the lexical check:`,
+        error
+      );
+    }
+  }
+  const lexicalOnly = sentences.length - verdicts.size;
+
+  let citations: ScriptCitation[] = sentences.map((sentence, index) => {
+    const verdict = verdicts.get(index + 1);
+    const unmatched = findUnmatchedTerms(sentence.text, corpus, knownWords);
+    const articleIds =
+      verdict?.articleIds ?? findLexicalCitations(sentence.text, articleWords);
+    const base = {
+      speaker: sentence.speaker,
+      articleIds,
+      ...(unmatched.length > 0 ? { unmatched } : {}),
+    };
+
+    if (verdict?.verdict === 'unsupported') {
+      if (mode === 'rewrite' && verdict.rewrite !== undefined) {
+        if (!verdict.rewrite) {
+          return { ...base, sentence: sentence.text, status: 'removed' };
+        }
+        // The rewrite is held to the same lexical standard
+        const stillUnmatched = findUnmatchedTerms(
+          verdict.rewrite,
+          corpus,
+          knownWords
+        );
+        return {
+          speaker: sentence.speaker,
+          sentence: verdict.rewrite,
+          original: sentence.text,
+          articleIds:
+            articleIds.length > 0
+              ? articleIds
+              : findLexicalCitations(verdict.rewrite, articleWords),
+          status: stillUnmatched.length > 0 ? 'ungrounded' : 'rewritten',
+          ...(stillUnmatched.length > 0 ? { unmatched: stillUnmatched } : {}),
+        };
+      }
+      return { ...base, sentence: sentence.text, status: 'ungrounded' };
+    }
+
+    let status: CitationStatus;
+    if (unmatched.length > 0) {
+      status = 'ungrounded';
+    } else if (verdict) {
+      status = verdict.verdict === 'supported' ? 'grounded' : 'no-claim';
+    } else {
+      status = articleIds.length > 0 ? 'grounded' : 'no-claim';
+    }
+    return { ...base, sentence: sentence.text, status };
+  });
+
+  // Rewrites must not undo what the script validation enforced
+  let checked = applyCitations(script, sentences, citations);
+  const brokenRules = citations.some(
+    (citation) =>
+      citation.status === 'rewritten' || citation.status === 'removed'
+  )
+    ? findBrokenRules(script, checked)
+    : [];
+  if (brokenRules.length > 0) {
+    console.warn(
+      `⚠️ Fact check rewrites would break the script rules (${brokenRules.join(', ')}); keeping the original sentences and flagging them instead`
+    );
+    citations = citations.map((citation) => {
+      if (citation.status !== 'rewritten' && citation.status !== 'removed') {
+        return citation;
+      }
+      const sentence = citation.original ?? citation.sentence;
+      const unmatched = findUnmatchedTerms(sentence, corpus, knownWords);
+      return {
+        speaker: citation.speaker,
+        sentence,
+        articleIds: citation.articleIds,
+        status: 'ungrounded',
+        ...(unmatched.length > 0 ? { unmatched } : {}),
+      };
+    });
+    checked = applyCitations(script, sentences, citations);
+  }
+
+  for (const citation of citations) {
+    if (citation.status === 'rewritten') {
+      console.log(
+        `   ✏️ Rewrote: "${citation.original}"\n      -> "${citation.sentence}"`
+      );
+    } else if (citation.status === 'removed') {
+      console.log(`   🗑️ Removed: "${citation.sentence}"`);
+    } else if (citation.status === 'ungrounded') {
+      console.log(
+        `   ⚠️ Ungrounded: "${citation.sentence}"${citation.unmatched ? ` (not in any article: ${citation.unmatched.join(', ')})` : ''}`
+      );
+    }
+  }
+
+  const grounding: GroundingReport = {
+    mode,
+    method: verdicts.size > 0 ? 'llm' : 'lexical',
+    ...(verdicts.size > 0 && lexicalOnly > 0 ? { lexicalOnly } : {}),
+    citations,
+    ...(brokenRules.length > 0 ? { revertedFor: brokenRules } : {}),
+  };
+  console.log(`✅ Fact check: ${summarizeGrounding(grounding)}`);
+
+  return { ...script, ...checked, grounding };
+}
+
+/**
+ * Counts the sentences per fact check status
+ */
+export function countCitations(
+  grounding: GroundingReport
+): Record<CitationStatus, number> {
+  const counts: Record<CitationStatus, number> = {
+    grounded: 0,
+    rewritten: 0,
+    removed: 0,
+    ungrounded: 0,
+    'no-claim': 0,
+  };
+  for (const citation of grounding.citations) {
+    counts[citation.status]++;
+  }
+  return counts;
+}
+
+/**
+ * Summarizes a grounding report for logs ("31 grounded, 2 rewritten, 1 flagged, 6 without claims")
+ */
+export function summarizeGrounding(grounding: GroundingReport): string {
+  const counts = countCitations(grounding);
+  const parts = [`${counts.grounded} grounded`];
+  if (counts.rewritten > 0) {
+    parts.push(`${counts.rewritten} rewritten`);
+  }
+  if (counts.removed > 0) {
+    parts.push(`${counts.removed} removed`);
+  }
+  parts.push(`${counts.ungrounded} flagged`);
+  parts.push(`${counts['no-claim']} without claims`);
+  return (
+    parts.join(', ') +
+    (grounding.method === 'lexical' ? ' (lexical check only)' : '') +
+    (grounding.lexicalOnly
+      ? ` (lexical check only for ${grounding.lexicalOnly} sentence(s))`
+      : '') +
+    (grounding.revertedFor
+      ? ` (rewrites reverted, they would break: ${grounding.revertedFor.join(', ')})`
+      : '')
+  );
+}
+
+/**
+ * Lists the rewritten, removed and flagged sentences for the Discord log
+ */
+export function describeGroundingChanges(
+  grounding: GroundingReport
+): { status: string; sentence: string; note?: string }[] {
+  return grounding.citations
+    .filter((citation) =>
+      ['rewritten', 'removed', 'ungrounded'].includes(citation.status)
+    )
+    .map((citation) => ({
+      status: citation.status,
+      sentence: citation.sentence,
+      note: citation.original
+        ? `Was: ${citation.original}`
+        : citation.unmatched
+          ? `Not in any article: ${citation.unmatched.join(', ')}`
+          : undefined,
+    }));
+}
+
+/**
+ * Builds the email section listing each checked sentence with its sources
+ * Sentences without claims are left out; flagged ones are marked.
+ * @param grounding - Fact check result of the script
+ * @param articles - Selected articles (for titles and links)
+ * @returns HTML section, or an empty string when there is nothing to show
+ */
+export function buildCitationHtml(
+  grounding: GroundingReport | undefined,
+  articles: Article[]
+): string {
+  if (!grounding) {
+    return '';
+  }
+  const byId = new Map(articles.map((article) => [article.id, article]));
+  const entries = grounding.citations.filter(
+    (citation) =>
+      citation.status !== 'no-claim' && citation.status !== 'removed'
+  );
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const items = entries
+    .map((citation) => {
+      const sources = citation.articleIds
+        .map((id) => byId.get(id))
+        .filter((article): article is Article => Boolean(article))
+        .map(
+          (article) =>
+            `<a href="${escapeHtml(article.link)}" style="color: #007acc;">${escapeHtml(article.source)}</a>`
+        )
+        .join(', ');
+      const flag =
+        citation.status === 'ungrounded'
+          ? ' <strong style="color: #d9822b;">⚠️ not found in the sources</strong>'
+          : '';
+      return `<li>${escapeHtml(citation.sentence)}<br><span style="font-size: 12px; color: #888;">${sources || 'No source'}${flag}</span></li>`;
+    })
+    .join('\n');
+
+  return `<h3 style="color: #333; margin-top: 30px;">🔗 Sources by Sentence</h3>
+<p style="font-size: 13px; color: #888;">${escapeHtml(summarizeGrounding(grounding))}</p>
+<ol style="font-size: 13px; line-height: 1.6; color: #555; padding-left: 20px;">
+${items}
+</ol>`;
+}
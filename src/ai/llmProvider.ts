@@ -0,0 +1,179 @@
+import dotenv from 'dotenv';
+import {
+  createAzureOpenAIProvider,
+  createOpenAICompatibleProvider,
+  createOpenAIProvider,
+} from './providers/openaiProvider';
+import { createScriptedProvider } from './providers/scriptedProvider';
+import { recordLlmUsage } from '../core/runCosts';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * LLM providers
+ *
+ * Every LLM call (filtering, selection, script generation) goes through an
+ * LlmProvider, so the pipeline can run against OpenAI, Azure OpenAI, a
+ * self-hosted OpenAI-compatible server (Ollama, llama.cpp, vLLM, ...) or a
+ * scripted fake that replays fixture responses for offline development.
+ * LLM_PROVIDER selects the implementation (default: openai).
+ */
+
+export type LlmMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type LlmRequest = {
+  label: string; // Name of the step for logs, errors and scripted fixtures
+  stage?: string; // Pipeline stage for cost accounting (defaults to the label)
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number;
+};
+
+export type LlmResponse = {
+  content: string;
+  truncated: boolean; // The output hit the token limit
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+};
+
+export interface LlmProvider {
+  readonly name: string;
+
+  /**
+   * Sends a chat request and returns the free-text answer
+   */
+  chat(request: LlmRequest): Promise<LlmResponse>;
+
+  /**
+   * Sends a chat request in JSON mode (the answer is a JSON object)
+   */
+  chatJson(request: LlmRequest): Promise<LlmResponse>;
+}
+
+export type LlmProviderType =
+  | 'openai'
+  | 'openai-compatible'
+  | 'azure-openai'
+  | 'scripted';
+
+const PROVIDER_FACTORIES: Record<LlmProviderType, () => LlmProvider> = {
+  openai: createOpenAIProvider,
+  'openai-compatible': createOpenAICompatibleProvider,
+  'azure-openai': createAzureOpenAIProvider,
+  scripted: createScriptedProvider,
+};
+
+// Environment variables each provider needs
+const REQUIRED_ENV: Record<LlmProviderType, string[]> = {
+  openai: ['OPENAI_API_KEY'],
+  'openai-compatible': ['LLM_BASE_URL', 'LLM_MODEL'],
+  'azure-openai': [
+    'AZURE_OPENAI_ENDPOINT',
+    'AZURE_OPENAI_API_KEY',
+    'AZURE_OPENAI_DEPLOYMENT',
+  ],
+  scripted: [],
+};
+
+// Cached provider (created once per process)
+let cachedProvider: LlmProvider | null = null;
+
+/**
+ * Wraps a provider so the tokens and cost of every call are recorded for the run
+ * (and the run stops once it goes over budget)
+ */
+function withCostTracking(provider: LlmProvider): LlmProvider {
+  const track =
+    (send: (request: LlmRequest) => Promise<LlmResponse>) =>
+    async (request: LlmRequest): Promise<LlmResponse> => {
+      const response = await send(request);
+      recordLlmUsage(request, response);
+      return response;
+    };
+
+  return {
+    name: provider.name,
+    chat: track((request) => provider.chat(request)),
+    chatJson: track((request) => provider.chatJson(request)),
+  };
+}
+
+/**
+ * Returns the configured provider type
+ * @throws Error when LLM_PROVIDER is not a known provider
+ */
+export function getLlmProviderType(): LlmProviderType {
+  const type = (process.env.LLM_PROVIDER || 'openai').trim();
+
+  // Own keys only, so names like "toString" are rejected as well
+  if (!Object.prototype.hasOwnProperty.call(PROVIDER_FACTORIES, type)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${type}". Expected one of: ${Object.keys(PROVIDER_FACTORIES).join(', ')}`
+    );
+  }
+  return type as LlmProviderType;
+}
+
+/**
+ * Returns a display name of the configured provider (e.g. for the email footer)
+ * OpenAI-compatible servers are named by their model.
+ */
+export function getLlmProviderLabel(): string {
+  const type = getLlmProviderType();
+  switch (type) {
+    case 'openai':
+      return 'OpenAI';
+    case 'azure-openai':
+      return 'Azure OpenAI';
+    case 'openai-compatible':
+      return process.env.LLM_MODEL || 'a self-hosted model';
+    case 'scripted':
+      return 'a scripted LLM';
+  }
+}
+
+/**
+ * Returns the environment variables the configured provider is missing
+ */
+export function getMissingLlmConfig(): string[] {
+  return REQUIRED_ENV[getLlmProviderType()].filter(
+    (name) => !process.env[name]
+  );
+}
+
+/**
+ * Returns true when the configured provider has everything it needs
+ * (used to fall back to offline keyword filtering)
+ */
+export function isLlmProviderConfigured(): boolean {
+  return getMissingLlmConfig().length === 0;
+}
+
+/**
+ * Returns the configured LLM provider
+ * @throws Error naming the missing environment variables
+ */
+export function getLlmProvider(): LlmProvider {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  const type = getLlmProviderType();
+  const missing = getMissingLlmConfig();
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required environment variable${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}\n` +
+        `Please add ${missing.length > 1 ? 'them' : 'it'} to the .env file (LLM_PROVIDER=${type}).`
+    );
+  }
+
+  cachedProvider = withCostTracking(PROVIDER_FACTORIES[type]());
+  return cachedProvider;
+}
@@ -1,5 +1,11 @@
-import { OpenAI } from 'openai';
-import { Article } from '../types/types';
+import { Article, EpisodePreset, InterestProfile, PodcastScript, ScriptExpectations, ScriptFormat, ScriptTurn, ScriptValidationReport, ScriptViolation } from '../types/types';
+import { truncateText } from '../utils/textUtils';
+import { getAlsoReportedBy } from '../core/storyClustering';
+import { loadShowConfig, describeLengthTarget, ShowHost } from '../core/showConfig';
+import { getActiveTemplate, describeTemplate, renderTemplate, TemplateName } from '../core/templates';
+import { getLlmProvider, LlmMessage } from './llmProvider';
+import { requestStructuredOutput, OutputSchema } from './structuredOutput';
+import { validateScript, buildRegenerationFeedback, summarizeValidation, getScriptValidationMaxRetries, countWords, ScriptDraft } from './scriptValidator';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
@@ -12,102 +18,249 @@ dotenv.config();
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
+/**
+ * Returns the prompt template used for a script format
+ */
+export function getScriptTemplateName(format: ScriptFormat): TemplateName {
+  return format === 'dialogue' ? 'podcast-dialogue' : 'podcast-script';
+}
+
+/**
+ * Schema for the dialogue format: {"turns": [{"speaker", "text"}]}
+ * Speakers must be the configured hosts (matched case-insensitively) and both must speak.
+ */
+function dialogueSchema(hosts: ShowHost[]): OutputSchema<ScriptTurn[]> {
+  return (value) => {
+    const turns = value && typeof value === 'object' ? (value as Record<string, unknown>).turns : undefined;
+    if (!Array.isArray(turns) || turns.length === 0) {
+      return { ok: false, problems: ['"turns" must be a non-empty array of {"speaker", "text"} objects.'] };
+    }
+
+    const hostNames = hosts.map(host => host.name);
+    const problems: string[] = [];
+    const parsed: ScriptTurn[] = [];
+
+    turns.forEach((turn, index) => {
+      const speaker = hostNames.find(name => typeof turn?.speaker === 'string' && name.toLowerCase() === turn.speaker.trim().toLowerCase());
+      if (!speaker) {
+        problems.push(`turns[${index}].speaker must be one of: ${hostNames.join(', ')}.`);
+      }
+      if (typeof turn?.text !== 'string' || !turn.text.trim()) {
+        problems.push(`turns[${index}].text must be non-empty text.`);
+      }
+      if (speaker && typeof turn?.text === 'string') {
+        parsed.push({ speaker, text: turn.text.trim() });
+      }
+    });
+
+    const silent = hostNames.filter(name => !parsed.some(turn => turn.speaker === name));
+    if (problems.length === 0 && silent.length > 0) {
+      problems.push(`Both hosts must speak; ${silent.join(', ')} has no turns.`);
+    }
+
+    return problems.length > 0 ? { ok: false, problems } : { ok: true, value: parsed };
+  };
+}
+
+/**
+ * Formats dialogue turns as a readable transcript with speaker labels
+ */
+export function formatTranscript(turns: ScriptTurn[]): string {
+  return turns.map(turn => `${turn.speaker}: ${turn.text}`).join('\n\n');
+}
+
 /**
  * Generates a podcast script from pre-selected articles (Pass B)
+ * The prompt is the active "podcast-script" (monologue) or "podcast-dialogue"
+ * template filled with the show branding. Dialogue scripts come back as JSON
+ * speaker turns, validated against the configured hosts. Every script is then
+ * checked against the prompt's rules: small violations are repaired, bigger
+ * ones trigger a regeneration with feedback (up to SCRIPT_VALIDATION_MAX_RETRIES).
  * @param selectedArticles - Array of articles that were already selected in Pass A
- * @param localDateISO - Optional date string in ISO format (defaults to current date in Budapest timezone)
- * @returns Promise<string> - Generated podcast script
+ * @param localDateISO - Optional date string in ISO format (defaults to current date in the show's timezone)
+ * @param profile - Optional audience interest profile (adds its audience and tone note to the prompt)
+ * @param format - Optional script format (defaults to the show config's format)
+ * @param preset - Optional episode preset (length target, structure and template versions; defaults to the show config's target and templates)
+ * @returns Promise<PodcastScript> - Generated podcast script
  */
 export async function generatePodcastScriptFromSelected(
   selectedArticles: Article[],
-  localDateISO?: string
-): Promise<string> {
-  // Validate OpenAI configuration
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error(
-      'Missing required environment variable: OPENAI_API_KEY\n' +
-      'Please add your OpenAI API key to the .env file.'
-    );
-  }
-
+  localDateISO?: string,
+  profile?: InterestProfile,
+  format?: ScriptFormat,
+  preset?: EpisodePreset
+): Promise<PodcastScript> {
   if (selectedArticles.length === 0) {
     throw new Error('No selected articles provided for podcast generation');
   }
 
-  // Initialize OpenAI client
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+  // Throws with the missing variables when the provider is not configured
+  const llm = getLlmProvider();
+
+  // Show branding and the prompt template version selected in config/show.json
+  // (or by the preset's prompt variant)
+  const show = loadShowConfig();
+  const scriptFormat = format || show.format;
+  const template = getActiveTemplate(getScriptTemplateName(scriptFormat), preset?.templates);
+  const targetWords = preset?.targetWords || show.targetWords;
+  const structure = preset?.structure || 'standard';
 
-  console.log(`🎙️ Generating podcast script from ${selectedArticles.length} selected articles...`);
+  console.log(`🎙️ Generating ${scriptFormat} podcast script (${preset ? `${preset.name}, ` : ''}${targetWords.min}–${targetWords.max} words) from ${selectedArticles.length} selected articles (template ${describeTemplate(template)})...`);
 
-  // Format today's date in Europe/Budapest timezone, month & day only (no year)
+  // Format today's date in the show's timezone, month & day only (no year)
   const formattedDateNoYear = localDateISO 
-    ? dayjs(localDateISO).tz('Europe/Budapest').format('MMMM D')
-    : dayjs().tz('Europe/Budapest').format('MMMM D');
+    ? dayjs(localDateISO).tz(show.timezone).format('MMMM D')
+    : dayjs().tz(show.timezone).format('MMMM D');
 
   // Prepare the articles data for the prompt (compact context)
   const articlesText = selectedArticles
     .map((article, index) => {
-      const pubDate = article.pubDate ? new Date(article.pubDate) : new Date();
-      const month = pubDate.toLocaleDateString('en-US', { month: 'long' });
-      const day = pubDate.getDate();
+      // Publication date as month and day in the show's timezone (omitted for undated articles)
+      const publishedOn = article.pubDate
+        ? ` (published ${dayjs(article.pubDate).tz(show.timezone).format('MMMM D')})`
+        : '';
       
-      return `${index + 1}. [${article.source}] ${article.title}
-   ${article.summary.substring(0, 200)}...`;
+      // Prefer the extracted article body; fall back to the short feed summary
+      const body = article.content || truncateText(article.summary, 300);
+
+      // Other outlets that covered the same story (from story clustering)
+      const alsoReportedBy = getAlsoReportedBy(article);
+      const sources = alsoReportedBy.length > 0
+        ? `${article.source}; also reported by ${alsoReportedBy.join(', ')}`
+        : article.source;
+
+      return `${index + 1}. [${sources}]${publishedOn} ${article.title}
+   ${body}`;
     })
     .join('\n\n');
 
-  const prompt = `You are a podcast scriptwriter. Produce a clear, engaging spoken script for the "49x AI Podcast".
-
-- The script is meant to be read aloud exactly as written.
-- Do NOT include any music cues, stage directions, host name placeholders, or formatting (no bold, no headers).
-- Target length: 800–1000 words (≈5–7 minutes spoken).
-- Select the most important updates from the data and use only AI or AI related news in the podcast. Anything that is not AI related is not relevant and should not be used for the podcast.
-- Smooth transitions between sections.
-- Factual, concise, natural tone. Conversational but professional.
-- Avoid any fancy wording, robotic style, or overly professional tone. This should be easy to understand and good to listen for the audience.
-- Mention sources conversationally ("according to the New York Times…") — no raw URLs.
-- The very first sentence must always be:
-  "Welcome to the 49 X AI Podcast, your daily briefing on artificial intelligence, today is ${formattedDateNoYear}."
-- The very last lines must always:
-   1) Wrap up with "This was the 49x AI Podcast for ${formattedDateNoYear}. Thanks for listening."
-   2) Include a few sentences summarizing the most important news of the day, like a closing highlight reel.
-- Do not duplicate news items. If multiple items cover the same event, merge them.
-- Mention dates only as month and day (no years).
-
-ARTICLES TO SUMMARIZE:
-${articlesText}
-
-Generate the podcast script now:`;
+  const lengthTarget = describeLengthTarget(targetWords);
+  const prompt = renderTemplate(template, 'user', {
+    showName: show.showName,
+    spokenShowName: show.spokenShowName,
+    tagline: show.tagline,
+    date: formattedDateNoYear,
+    audience: profile?.audience,
+    tone: profile?.tone,
+    targetWords: lengthTarget.words,
+    targetMinutes: lengthTarget.minutes,
+    articles: articlesText,
+    firstHost: show.hosts[0]?.name,
+    secondHost: show.hosts[1]?.name,
+    headlines: structure === 'headlines' ? 'yes' : undefined,
+    deepDive: structure === 'deep-dive' ? 'yes' : undefined,
+  });
+
+  const messages: LlmMessage[] = [
+    {
+      role: 'system',
+      content: renderTemplate(template, 'system', {}),
+    },
+    {
+      role: 'user',
+      content: prompt,
+    },
+  ];
+
+  // The rules of the prompt, checked after every attempt
+  const expectations: ScriptExpectations = {
+    opening: `Welcome to the ${show.spokenShowName}, ${show.tagline}, today is ${formattedDateNoYear}.`,
+    closing: `This was the ${show.showName} for ${formattedDateNoYear}. Thanks for listening.`,
+    minWords: targetWords.min,
+    maxWords: targetWords.max,
+    hosts: show.hosts.map(host => host.name),
+  };
+  const maxRetries = getScriptValidationMaxRetries();
+
+  // About 1.3 tokens per word, with room to spare; longer presets need more
+  const monologueMaxTokens = Math.max(2000, Math.ceil(targetWords.max * 2));
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are an experienced podcast host specializing in AI and technology news. You create engaging, informative content that makes complex topics accessible to a broad audience.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      max_tokens: 2000,
-      temperature: 0.7,
-    });
+    const attempts: ScriptViolation[][] = [];
+    let best: { draft: ScriptDraft; remaining: ScriptViolation[] } | undefined;
+
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      let draft: ScriptDraft;
+      let reply: string;
+
+      if (scriptFormat === 'dialogue') {
+        // JSON adds some overhead per turn, so allow more tokens than for a monologue
+        const turns = await requestStructuredOutput(llm, {
+          label: 'Podcast dialogue',
+          stage: 'Podcast script',
+          messages,
+          schema: dialogueSchema(show.hosts),
+          maxTokens: Math.ceil(monologueMaxTokens * 1.5),
+          temperature: 0.7,
+        });
+        draft = { format: 'dialogue', turns };
+        reply = JSON.stringify({ turns });
+      } else {
+        const completion = await llm.chat({
+          label: 'Podcast script',
+          messages,
+          maxTokens: monologueMaxTokens,
+          temperature: 0.7,
+        });
+
+        if (!completion.content) {
+          throw new Error('Failed to generate podcast script - no content returned');
+        }
+        draft = { format: 'monologue', text: completion.content };
+        reply = completion.content;
+      }
+
+      const result = validateScript(draft, expectations);
+      const remaining = result.violations.filter(violation => !violation.fixed);
+      attempts.push(result.violations);
+
+      for (const violation of result.violations) {
+        console.log(`   ${violation.fixed ? '🧹' : '⚠️'} ${violation.rule}: ${violation.message}`);
+      }
+
+      // Keep the attempt with the fewest unfixed violations (the later one on a tie)
+      if (!best || remaining.length <= best.remaining.length) {
+        best = { draft: result.draft, remaining };
+      }
+      if (remaining.length === 0) {
+        break;
+      }
+
+      if (attempt <= maxRetries) {
+        console.warn(`⚠️ Podcast script breaks ${remaining.length} rule(s) (attempt ${attempt}/${maxRetries + 1}), regenerating...`);
+        messages.push(
+          { role: 'assistant', content: reply },
+          { role: 'user', content: buildRegenerationFeedback(remaining, scriptFormat) }
+        );
+      } else {
+        console.warn(`⚠️ Podcast script still breaks ${best.remaining.length} rule(s) after ${attempt} attempts; using the best attempt`);
+      }
+    }
+
+    if (!best) {
+      throw new Error('Failed to generate podcast script - no draft was produced');
+    }
+    const chosen = best;
+    const validation: ScriptValidationReport = {
+      attempts: attempts.length,
+      violations: attempts,
+      remaining: chosen.remaining,
+      passed: chosen.remaining.length === 0,
+      expectations,
+    };
 
-    const script = completion.choices[0]?.message?.content;
+    const script: PodcastScript = chosen.draft.format === 'dialogue'
+      ? { format: 'dialogue', text: formatTranscript(chosen.draft.turns), turns: chosen.draft.turns, template: describeTemplate(template), validation }
+      : { format: 'monologue', text: chosen.draft.text, turns: [], template: describeTemplate(template), validation };
 
-    if (!script) {
-      throw new Error('Failed to generate podcast script - no content returned');
+    if (script.format === 'dialogue') {
+      console.log(`🗣️ Dialogue with ${script.turns.length} turns (${show.hosts.map(host => `${host.name}: ${script.turns.filter(turn => turn.speaker === host.name).length}`).join(', ')})`);
     }
 
     console.log('✅ Podcast script generated successfully!');
-    console.log(`📝 Script length: ${script.length} characters`);
-    console.log(`📊 Estimated word count: ${script.split(' ').length} words`);
+    console.log(`📝 Script length: ${script.text.length} characters`);
+    console.log(`📊 Word count: ${countWords(script.text)} words`);
+    console.log(`🔎 Script validation: ${summarizeValidation(validation)}`);
 
     return script;
   } catch (error) {
@@ -0,0 +1,102 @@
+import { AzureOpenAI, OpenAI } from 'openai';
+import { LlmProvider, LlmRequest, LlmResponse } from '../llmProvider';
+
+/**
+ * Providers built on the OpenAI SDK: OpenAI itself, Azure OpenAI and any
+ * server that implements the OpenAI chat completions API (Ollama, llama.cpp,
+ * vLLM, LM Studio, ...).
+ */
+
+/**
+ * Wraps an OpenAI SDK client as an LlmProvider
+ * @param name - Provider name for logs
+ * @param client - Configured SDK client
+ * @param model - Model (or Azure deployment) name
+ * @param supportsJsonMode - Whether the server accepts response_format json_object
+ */
+function createClientProvider(
+  name: string,
+  client: OpenAI,
+  model: string,
+  supportsJsonMode = true
+): LlmProvider {
+  async function complete(
+    request: LlmRequest,
+    json: boolean
+  ): Promise<LlmResponse> {
+    const completion = await client.chat.completions.create({
+      model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(json && supportsJsonMode
+        ? { response_format: { type: 'json_object' as const } }
+        : {}),
+    });
+
+    const choice = completion.choices[0];
+    return {
+      content: choice?.message?.content || '',
+      truncated: choice?.finish_reason === 'length',
+      model: completion.model || model,
+      usage: completion.usage && {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+      },
+    };
+  }
+
+  return {
+    name,
+    chat: (request) => complete(request, false),
+    chatJson: (request) => complete(request, true),
+  };
+}
+
+/**
+ * OpenAI API (OPENAI_API_KEY, OPENAI_MODEL)
+ */
+export function createOpenAIProvider(): LlmProvider {
+  return createClientProvider(
+    'openai',
+    new OpenAI({ apiKey: process.env.OPENAI_API_KEY }),
+    process.env.OPENAI_MODEL || 'gpt-4o-mini'
+  );
+}
+
+/**
+ * OpenAI-compatible server (LLM_BASE_URL, LLM_MODEL, optional LLM_API_KEY)
+ * LLM_JSON_MODE=false disables response_format for servers that reject it;
+ * the prompts ask for JSON either way.
+ */
+export function createOpenAICompatibleProvider(): LlmProvider {
+  return createClientProvider(
+    'openai-compatible',
+    new OpenAI({
+      baseURL: process.env.LLM_BASE_URL,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: process.env.LLM_API_KEY || 'not-needed',
+    }),
+    process.env.LLM_MODEL as string,
+    process.env.LLM_JSON_MODE !== 'false'
+  );
+}
+
+/**
+ * Azure OpenAI (AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, AZURE_OPENAI_DEPLOYMENT,
+ * optional AZURE_OPENAI_API_VERSION)
+ */
+export function createAzureOpenAIProvider(): LlmProvider {
+  const deployment = process.env.AZURE_OPENAI_DEPLOYMENT as string;
+
+  return createClientProvider(
+    'azure-openai',
+    new AzureOpenAI({
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      deployment,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+    }),
+    deployment
+  );
+}
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import { LlmProvider, LlmRequest, LlmResponse } from '../llmProvider';
+
+/**
+ * Scripted LLM provider
+ *
+ * Replays responses from a fixture file instead of calling a model, so the
+ * whole pipeline runs offline and deterministically. Each entry matches
+ * requests whose label starts with its "label" and lists the replies to give
+ * on the 1st, 2nd, ... call (the last reply repeats). A reply is either text
+ * or a JSON value. Because article ids depend on the fetched data, replies can
+ * refer to the ids found in the request: "{{ids}}" (as a whole JSON string
+ * value) becomes the array of all ids and "{{id:N}}" the N-th id (from 0).
+ */
+
+const DEFAULT_SCRIPT_PATH = 'fixtures/llm/scripted.json';
+
+type ScriptEntry = {
+  label: string;
+  replies: unknown[];
+};
+
+/**
+ * Loads and checks the script file
+ */
+function loadScript(scriptPath: string): ScriptEntry[] {
+  let data: { responses?: ScriptEntry[] };
+  try {
+    data = JSON.parse(fs.readFileSync(scriptPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read LLM script at ${scriptPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const entries = data.responses;
+  if (
+    !Array.isArray(entries) ||
+    !entries.every(
+      (entry) =>
+        typeof entry?.label === 'string' &&
+        Array.isArray(entry.replies) &&
+        entry.replies.length > 0
+    )
+  ) {
+    throw new Error(
+      `Invalid LLM script at ${scriptPath}: expected "responses": [{ "label": string, "replies": [...] }]`
+    );
+  }
+  return entries;
+}
+
+/**
+ * Returns the article ids mentioned in the request's user messages, in order
+ */
+function extractIds(request: LlmRequest): string[] {
+  const ids: string[] = [];
+  for (const message of request.messages.filter((m) => m.role === 'user')) {
+    for (const match of message.content.matchAll(/"id":\s*"([^"]+)"/g)) {
+      if (!ids.includes(match[1])) {
+        ids.push(match[1]);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Replaces the id placeholders in a reply
+ */
+function fillTemplate(value: unknown, ids: string[]): unknown {
+  if (typeof value === 'string') {
+    if (value === '{{ids}}') {
+      return ids;
+    }
+    return value.replace(/\{\{id:(\d+)\}\}/g, (placeholder, index) =>
+      Number(index) < ids.length ? ids[Number(index)] : placeholder
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => fillTemplate(entry, ids));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        fillTemplate(entry, ids),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Scripted provider (LLM_SCRIPT_PATH, defaults to fixtures/llm/scripted.json)
+ */
+export function createScriptedProvider(): LlmProvider {
+  const scriptPath = path.resolve(
+    process.cwd(),
+    process.env.LLM_SCRIPT_PATH || DEFAULT_SCRIPT_PATH
+  );
+  const entries = loadScript(scriptPath);
+  const callCounts = new Map<ScriptEntry, number>();
+
+  async function reply(request: LlmRequest): Promise<LlmResponse> {
+    const entry = entries.find((candidate) =>
+      request.label.startsWith(candidate.label)
+    );
+    if (!entry) {
+      throw new Error(
+        `No scripted LLM response for "${request.label}" in ${scriptPath}`
+      );
+    }
+
+    const call = callCounts.get(entry) || 0;
+    callCounts.set(entry, call + 1);
+
+    const template = entry.replies[Math.min(call, entry.replies.length - 1)];
+    const filled = fillTemplate(template, extractIds(request));
+
+    console.log(`🎭 Scripted LLM reply for "${request.label}" (#${call + 1})`);
+    return {
+      content: typeof filled === 'string' ? filled : JSON.stringify(filled),
+      truncated: false,
+      model: 'scripted',
+    };
+  }
+
+  return {
+    name: 'scripted',
+    chat: reply,
+    chatJson: reply,
+  };
+}
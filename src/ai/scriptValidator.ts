@@ -0,0 +1,334 @@
+import dotenv from 'dotenv';
+import {
+  ScriptExpectations,
+  ScriptTurn,
+  ScriptValidationReport,
+  ScriptViolation,
+} from '../types/types';
+import { getNonNegativeIntEnv } from '../utils/utils';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Script validation
+ *
+ * Checks a generated script against the rules its prompt sets. Small
+ * violations are repaired in place (markdown, music cues and stage
+ * directions, speaker labels inside the text). The others (raw URLs, a
+ * missing opening or closing line, a script that is too short or too long)
+ * cannot be fixed reliably without the model, so they are turned into
+ * feedback for a regeneration.
+ */
+
+// Words in brackets, parentheses or asterisks that mark a cue rather than speech
+const CUE_WORDS =
+  'music|jingle|sound|sfx|sound effects?|pause|beat|laughs?|laughing|chuckles?|applause|intro|outro|theme|transition|fades?|fading|segue|sting|silence';
+
+// Brackets with cue wording, or on a line of their own ("[Segment two]");
+// brackets inside a sentence, like "[sic]" or "GPT-5 [preview]", stay
+const BRACKETED_LINE_PATTERN = /^[ \t]*\[[^\]\n]*\][ \t]*$/gm;
+const BRACKETED_CUE_PATTERN = new RegExp(
+  `\\[[^\\]\\n]*\\b(?:${CUE_WORDS})\\b[^\\]\\n]*\\]`,
+  'gi'
+);
+const PARENTHESIZED_CUE_PATTERN = new RegExp(
+  `\\([^)\\n]*\\b(?:${CUE_WORDS})\\b[^)\\n]*\\)`,
+  'gi'
+);
+const STARRED_CUE_PATTERN = new RegExp(
+  `\\*{1,2}[^*\\n]*\\b(?:${CUE_WORDS})\\b[^*\\n]*\\*{1,2}`,
+  'gi'
+);
+
+const MARKDOWN_PATTERNS: RegExp[] = [
+  /^#{1,6}[ \t]+/gm, // Headers
+  /^[ \t]*(?:[-*_][ \t]*){3,}$/gm, // Horizontal rules
+  /^[ \t]*(?:[-*•]|\d+\.)[ \t]+/gm, // List markers
+  /\*\*|__|`/g, // Bold and code
+  /(?<![\w*])\*(?=\S)|(?<=\S)\*(?![\w*])/g, // Italics
+];
+
+// Trailing punctuation belongs to the sentence, not the URL
+const URL_PATTERN =
+  /\bhttps?:\/\/[^\s)]*[^\s).,;:!?]|\bwww\.[^\s)]*[^\s).,;:!?]/gi;
+
+// Generic labels the model uses in place of a host name
+const GENERIC_SPEAKERS = ['Host', 'Narrator', 'Announcer', 'Speaker'];
+
+// Rules that are repaired in place, with what the log says was removed
+type FixedRule = 'markdown' | 'stage-cue' | 'speaker-label';
+
+const FIXED_RULE_DESCRIPTIONS: Record<FixedRule, string> = {
+  markdown: 'markdown marker(s)',
+  'stage-cue': 'music cue(s) or stage direction(s)',
+  'speaker-label': 'speaker label(s)',
+};
+
+/**
+ * Script to validate: plain text for a monologue, speaker turns for a dialogue
+ */
+export type ScriptDraft =
+  | { format: 'monologue'; text: string }
+  | { format: 'dialogue'; turns: ScriptTurn[] };
+
+/**
+ * Returns the configured number of regenerations for scripts that break the rules
+ */
+export function getScriptValidationMaxRetries(): number {
+  return getNonNegativeIntEnv('SCRIPT_VALIDATION_MAX_RETRIES', 2);
+}
+
+/**
+ * Returns how far (in percent) the word count may fall outside the target
+ * before the script is regenerated
+ */
+function getWordTolerancePercent(): number {
+  return getNonNegativeIntEnv('SCRIPT_WORD_TOLERANCE_PERCENT', 10);
+}
+
+/**
+ * Counts the words of a script
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Lowercases and strips punctuation, so required lines match regardless of
+ * quote style, dashes or commas
+ */
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Formats up to three examples of removed text for a violation message
+ */
+function examples(matches: string[]): string {
+  const unique = Array.from(new Set(matches.map((match) => match.trim())));
+  const shown = unique
+    .slice(0, 3)
+    .map((match) => `"${match}"`)
+    .join(', ');
+  return unique.length > 3 ? `${shown}, …` : shown;
+}
+
+/**
+ * Removes a pattern from the text and collects what was removed
+ */
+function removeAll(
+  text: string,
+  pattern: RegExp,
+  removed: string[],
+  replacement = ''
+): string {
+  return text.replace(pattern, (match) => {
+    removed.push(match);
+    return replacement;
+  });
+}
+
+/**
+ * Repairs the small violations of one piece of spoken text
+ * @param text - Monologue script or the text of one dialogue turn
+ * @param speakers - Host names that must not appear as "Name:" labels
+ * @param removed - Collects the removed fragments per rule
+ * @returns The cleaned text
+ */
+function cleanText(
+  text: string,
+  speakers: string[],
+  removed: Record<FixedRule, string[]>
+): string {
+  // Cues first, so "*laughs*" is dropped instead of becoming "laughs"
+  let cleaned = removeAll(text, BRACKETED_LINE_PATTERN, removed['stage-cue']);
+  cleaned = removeAll(cleaned, BRACKETED_CUE_PATTERN, removed['stage-cue']);
+  cleaned = removeAll(cleaned, PARENTHESIZED_CUE_PATTERN, removed['stage-cue']);
+  cleaned = removeAll(cleaned, STARRED_CUE_PATTERN, removed['stage-cue']);
+
+  for (const pattern of MARKDOWN_PATTERNS) {
+    cleaned = removeAll(cleaned, pattern, removed.markdown);
+  }
+
+  const names = [...speakers, ...GENERIC_SPEAKERS]
+    .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|');
+  cleaned = removeAll(
+    cleaned,
+    new RegExp(`^[ \\t]*(?:${names})(?:[ \\t]*\\d+)?[ \\t]*:[ \\t]*`, 'gim'),
+    removed['speaker-label']
+  );
+
+  return cleaned
+    .replace(/[ \t]+([,.!?;:])/g, '$1') // Space left before punctuation
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/^[ \t]+|[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Validates a generated script and repairs what can be repaired
+ * @param draft - Monologue text or dialogue turns as generated
+ * @param expectations - Opening and closing lines, word target and hosts
+ * @returns The repaired draft and every violation found (fixed or not)
+ */
+export function validateScript(
+  draft: ScriptDraft,
+  expectations: ScriptExpectations
+): { draft: ScriptDraft; violations: ScriptViolation[] } {
+  const removed: Record<FixedRule, string[]> = {
+    markdown: [],
+    'stage-cue': [],
+    'speaker-label': [],
+  };
+  const collect = (text: string): string =>
+    cleanText(text, expectations.hosts, removed);
+
+  const cleaned: ScriptDraft =
+    draft.format === 'dialogue'
+      ? {
+          format: 'dialogue',
+          turns: draft.turns
+            .map((turn) => ({
+              speaker: turn.speaker,
+              text: collect(turn.text),
+            }))
+            .filter((turn) => turn.text),
+        }
+      : { format: 'monologue', text: collect(draft.text) };
+
+  const violations: ScriptViolation[] = [];
+  for (const rule of Object.keys(removed) as FixedRule[]) {
+    if (removed[rule].length > 0) {
+      violations.push({
+        rule,
+        message: `Removed ${removed[rule].length} ${FIXED_RULE_DESCRIPTIONS[rule]} (${examples(removed[rule])})`,
+        fixed: true,
+      });
+    }
+  }
+
+  const turns = cleaned.format === 'dialogue' ? cleaned.turns : [];
+  const text =
+    cleaned.format === 'dialogue'
+      ? turns.map((turn) => turn.text).join('\n\n')
+      : cleaned.text;
+
+  const urls = text.match(URL_PATTERN) || [];
+  if (urls.length > 0) {
+    violations.push({
+      rule: 'raw-url',
+      message: `The script contains raw URLs (${examples(urls)}). Mention sources by name instead ("according to TechCrunch…").`,
+      fixed: false,
+    });
+  }
+
+  const [firstHost, secondHost] = expectations.hosts;
+  const opening = normalizeForMatch(expectations.opening);
+  const closing = normalizeForMatch(expectations.closing);
+
+  if (cleaned.format === 'dialogue') {
+    const first = turns[0];
+    if (
+      first?.speaker !== firstHost ||
+      !normalizeForMatch(first.text).startsWith(opening)
+    ) {
+      violations.push({
+        rule: 'opening',
+        message: `The first turn must be ${firstHost}'s and start with exactly: "${expectations.opening}"`,
+        fixed: false,
+      });
+    }
+    const last = turns[turns.length - 1];
+    if (
+      last?.speaker !== secondHost ||
+      !normalizeForMatch(last.text).includes(closing)
+    ) {
+      violations.push({
+        rule: 'closing',
+        message: `The last turn must be ${secondHost}'s and end the show with: "${expectations.closing}"`,
+        fixed: false,
+      });
+    }
+  } else {
+    const normalized = normalizeForMatch(text);
+    if (!normalized.startsWith(opening)) {
+      violations.push({
+        rule: 'opening',
+        message: `The very first sentence must be exactly: "${expectations.opening}"`,
+        fixed: false,
+      });
+    }
+    // The sign-off belongs to the closing part, not to the middle of the script
+    const closingAt = normalized.lastIndexOf(closing);
+    if (closingAt < 0 || closingAt < normalized.length * 0.6) {
+      violations.push({
+        rule: 'closing',
+        message: `The closing lines must include: "${expectations.closing}"`,
+        fixed: false,
+      });
+    }
+  }
+
+  const words = countWords(text);
+  const tolerance = getWordTolerancePercent() / 100;
+  if (
+    words < Math.floor(expectations.minWords * (1 - tolerance)) ||
+    words > Math.ceil(expectations.maxWords * (1 + tolerance))
+  ) {
+    violations.push({
+      rule: 'length',
+      message: `The script has ${words} words; it must have ${expectations.minWords}–${expectations.maxWords} words. ${words < expectations.minWords ? 'Cover the stories in more depth' : 'Tighten the coverage'} to reach the target.`,
+      fixed: false,
+    });
+  }
+
+  return { draft: cleaned, violations };
+}
+
+/**
+ * Builds the follow-up message asking the model to rewrite a script
+ * @param violations - Violations that could not be repaired
+ * @param format - Script format (dialogues must answer with JSON again)
+ */
+export function buildRegenerationFeedback(
+  violations: ScriptViolation[],
+  format: ScriptDraft['format']
+): string {
+  return (
+    'Your script breaks these rules:\n' +
+    violations.map((violation) => `- ${violation.message}`).join('\n') +
+    '\n\n' +
+    (format === 'dialogue'
+      ? 'Rewrite the whole conversation so it follows every rule, and reply with ONLY the JSON object in the required format.'
+      : 'Rewrite the whole script so it follows every rule. Reply with ONLY the script text.')
+  );
+}
+
+/**
+ * Summarizes a validation report for logs ("2 attempt(s); fixed: markdown; regenerated for: length")
+ */
+export function summarizeValidation(report: ScriptValidationReport): string {
+  const rules = (violations: ScriptViolation[], fixed: boolean): string =>
+    Array.from(
+      new Set(violations.filter((v) => v.fixed === fixed).map((v) => v.rule))
+    ).join(', ');
+
+  const parts = [`${report.attempts} attempt(s)`];
+  const fixed = rules(report.violations.flat(), true);
+  if (fixed) {
+    parts.push(`fixed: ${fixed}`);
+  }
+  if (!report.passed) {
+    parts.push(`remaining: ${rules(report.remaining, false)}`);
+  } else if (report.attempts > 1) {
+    parts.push(`regenerated for: ${rules(report.violations.flat(), false)}`);
+  }
+  return parts.join('; ');
+}
@@ -0,0 +1,246 @@
+import dotenv from 'dotenv';
+import { LlmMessage, LlmProvider } from './llmProvider';
+import { getNonNegativeIntEnv } from '../utils/utils';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Structured LLM output
+ *
+ * Shared layer for prompts that must answer with JSON. Every response is
+ * checked for truncation, parsed and validated against a schema at runtime.
+ * When the output is unusable, the problems are sent back to the model in a
+ * corrective follow-up message and the request is retried; once the retries
+ * run out a StructuredOutputError is thrown instead of silently using
+ * partial or invented data.
+ */
+
+/**
+ * Validates parsed JSON output
+ * @returns The typed value, or the list of problems found
+ */
+export type OutputSchema<T> = (
+  value: unknown
+) => { ok: true; value: T } | { ok: false; problems: string[] };
+
+export type StructuredOutputRequest<T> = {
+  label: string; // Name of the step for logs and errors (e.g. "article selection")
+  stage?: string; // Pipeline stage for cost accounting (defaults to the label)
+  messages: LlmMessage[];
+  schema: OutputSchema<T>;
+  maxTokens?: number;
+  temperature?: number;
+  maxRetries?: number; // Defaults to STRUCTURED_OUTPUT_MAX_RETRIES
+};
+
+/**
+ * Error thrown when the model keeps returning unusable output
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly label: string,
+    public readonly attempts: number,
+    public readonly problems: string[],
+    public readonly lastResponse?: string
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Returns the configured number of corrective retries
+ */
+function getDefaultMaxRetries(): number {
+  return getNonNegativeIntEnv('STRUCTURED_OUTPUT_MAX_RETRIES', 2);
+}
+
+/**
+ * Parses and validates one raw response
+ * @returns The typed value, or the problems to report back to the model
+ */
+function checkResponse<T>(
+  content: string,
+  truncated: boolean,
+  schema: OutputSchema<T>
+): { ok: true; value: T } | { ok: false; problems: string[] } {
+  if (!content) {
+    return { ok: false, problems: ['The response was empty.'] };
+  }
+
+  if (truncated) {
+    return {
+      ok: false,
+      problems: [
+        'The response was cut off before the JSON was complete. Answer more briefly.',
+      ],
+    };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return {
+      ok: false,
+      problems: [
+        `The response is not valid JSON (${error instanceof Error ? error.message : String(error)}).`,
+      ],
+    };
+  }
+
+  return schema(parsed);
+}
+
+/**
+ * Requests JSON output from the model and validates it, retrying with corrective feedback
+ * @param provider - LLM provider
+ * @param request - Messages, schema and generation settings
+ * @returns The validated value
+ * @throws StructuredOutputError when no valid output was produced within the retries
+ */
+export async function requestStructuredOutput<T>(
+  provider: LlmProvider,
+  request: StructuredOutputRequest<T>
+): Promise<T> {
+  const maxRetries = request.maxRetries ?? getDefaultMaxRetries();
+  const messages = [...request.messages];
+  let problems: string[] = [];
+  let lastResponse: string | undefined;
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    const response = await provider.chatJson({
+      label: request.label,
+      stage: request.stage,
+      messages: [...messages],
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+    });
+    lastResponse = response.content || undefined;
+
+    const result = checkResponse(
+      response.content,
+      response.truncated,
+      request.schema
+    );
+    if (result.ok) {
+      if (attempt > 1) {
+        console.log(
+          `✅ ${request.label}: valid output after ${attempt} attempts`
+        );
+      }
+      return result.value;
+    }
+
+    problems = result.problems;
+    console.warn(
+      `⚠️ ${request.label}: invalid output (attempt ${attempt}/${maxRetries + 1}): ${problems.join(' ')}`
+    );
+
+    // Show the model its answer and what was wrong with it
+    if (lastResponse) {
+      messages.push({ role: 'assistant', content: lastResponse });
+    }
+    messages.push({
+      role: 'user',
+      content:
+        'Your previous answer could not be used:\n' +
+        problems.map((problem) => `- ${problem}`).join('\n') +
+        '\n\nReply again with ONLY the corrected JSON object in the required format.',
+    });
+  }
+
+  throw new StructuredOutputError(
+    `${request.label} failed: no valid output after ${maxRetries + 1} attempts:\n` +
+      problems.map((problem) => `  - ${problem}`).join('\n'),
+    request.label,
+    maxRetries + 1,
+    problems,
+    lastResponse
+  );
+}
+
+export type IdListLimits = {
+  min?: number;
+  max?: number;
+  required?: string[]; // Ids that must be part of the answer
+};
+
+/**
+ * Checks returned ids against the candidate set
+ * @param ids - Ids returned by the model
+ * @param candidateIds - Ids the model may return
+ * @param limits - Minimum and maximum number of ids (the minimum is capped at the number of candidates) and required ids
+ * @returns Problems found, empty when the ids are valid
+ */
+export function checkIdList(
+  ids: string[],
+  candidateIds: Iterable<string>,
+  limits: IdListLimits = {}
+): string[] {
+  const candidates = new Set(candidateIds);
+  const min = Math.min(limits.min ?? 0, candidates.size);
+  const max = limits.max ?? candidates.size;
+
+  const problems: string[] = [];
+  const unknown = ids.filter((id) => !candidates.has(id));
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+
+  if (unknown.length > 0) {
+    problems.push(
+      `These ids are not in the provided list: ${unknown.join(', ')}. Use ids exactly as given.`
+    );
+  }
+  if (duplicates.length > 0) {
+    problems.push(`These ids appear more than once: ${duplicates.join(', ')}.`);
+  }
+  const missing = (limits.required || []).filter((id) => !ids.includes(id));
+  if (missing.length > 0) {
+    problems.push(`These ids must be included: ${missing.join(', ')}.`);
+  }
+  if (ids.length < min) {
+    problems.push(
+      `Only ${ids.length} ids were returned; return at least ${min}.`
+    );
+  }
+  if (ids.length > max) {
+    problems.push(`${ids.length} ids were returned; return at most ${max}.`);
+  }
+
+  return problems;
+}
+
+/**
+ * Builds a schema for an object holding a list of ids from a known candidate set
+ * @param field - Name of the array field (e.g. "aiRelatedIds")
+ * @param candidateIds - Ids the model may return
+ * @param limits - Minimum and maximum number of ids
+ */
+export function idListSchema(
+  field: string,
+  candidateIds: Iterable<string>,
+  limits: IdListLimits = {}
+): OutputSchema<string[]> {
+  const candidates = Array.from(candidateIds);
+
+  return (value) => {
+    const ids =
+      value && typeof value === 'object'
+        ? (value as Record<string, unknown>)[field]
+        : undefined;
+
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string')) {
+      return {
+        ok: false,
+        problems: [`The JSON must contain a "${field}" array of id strings.`],
+      };
+    }
+
+    const problems = checkIdList(ids, candidates, limits);
+    return problems.length > 0
+      ? { ok: false, problems }
+      : { ok: true, value: ids as string[] };
+  };
+}
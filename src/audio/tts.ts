@@ -3,6 +3,9 @@ import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
 import { spawn } from 'child_process';
+import { ensureWithinBudget, estimateTtsCost, recordTtsUsage } from '../core/runCosts';
+import { loadShowConfig } from '../core/showConfig';
+import { ScriptTurn } from '../types/types';
 
 // Load environment variables
 dotenv.config();
@@ -44,12 +47,39 @@ function chunkText(text: string, maxLength: number = 1900): string[] {
   return chunks;
 }
 
+/**
+ * A piece of text to synthesize with one voice
+ */
+type SpeechSegment = {
+  text: string;
+  voice: string;
+};
+
+/**
+ * Splits a script into segments that fit Deepgram's limit, each with its voice
+ * Dialogue turns use their host's voice from the show config; a monologue uses the default voice.
+ */
+function buildSpeechSegments(script: string | ScriptTurn[], defaultVoice: string): SpeechSegment[] {
+  if (typeof script === 'string') {
+    return chunkText(script).map(text => ({ text, voice: defaultVoice }));
+  }
+
+  const hosts = loadShowConfig().hosts;
+  return script.flatMap(turn => {
+    const host = hosts.find(candidate => candidate.name === turn.speaker);
+    if (!host) {
+      console.warn(`⚠️ No voice configured for speaker "${turn.speaker}", using ${defaultVoice}`);
+    }
+    return chunkText(turn.text).map(text => ({ text, voice: host?.voice || defaultVoice }));
+  });
+}
+
 /**
  * Synthesizes a podcast script into MP3 audio using Deepgram TTS
- * @param script - The podcast script text to convert to speech
+ * @param script - The podcast script text (one voice), or dialogue turns rendered with each host's voice and joined in order
  * @returns Promise<Buffer> - The MP3 audio data as a Buffer
  */
-export async function synthesizePodcast(script: string): Promise<Buffer> {
+export async function synthesizePodcast(script: string | ScriptTurn[]): Promise<Buffer> {
   // Validate Deepgram API key
   if (!process.env.DEEPGRAM_API_KEY) {
     throw new Error(
@@ -62,37 +92,43 @@ export async function synthesizePodcast(script: string): Promise<Buffer> {
   // Get voice ID from environment or use default
   const voiceId = process.env.DEEPGRAM_VOICE_ID || 'aura-asteria-en';
 
-  if (!script || script.trim().length === 0) {
+  // Everything that will be read aloud (turn texts without speaker labels)
+  const spokenText = typeof script === 'string' ? script : script.map(turn => turn.text).join(' ');
+
+  if (!spokenText || spokenText.trim().length === 0) {
     throw new Error('Script cannot be empty');
   }
 
   console.log('🎤 Starting text-to-speech synthesis...');
-  console.log(`📝 Script length: ${script.length} characters`);
+  console.log(`📝 Script length: ${spokenText.length} characters`);
 
   try {
     // Initialize Deepgram client
     const deepgram = createClient(process.env.DEEPGRAM_API_KEY);
 
-    // Chunk the script if it's too long
-    const textChunks = chunkText(script);
-    console.log(`📄 Script split into ${textChunks.length} chunks for processing`);
+    // Chunk the script if it's too long (dialogue turns are never merged, so each keeps its voice)
+    const segments = buildSpeechSegments(script, voiceId);
+    console.log(`📄 Script split into ${segments.length} chunks for processing`);
+
+    // Stop before synthesizing if the audio would push the run over budget
+    ensureWithinBudget('Text-to-speech', segments.reduce((sum, segment) => sum + estimateTtsCost(segment.voice, segment.text.length), 0));
 
     console.log('🔊 Synthesizing speech with Deepgram...');
-    console.log(`🎭 Using voice: ${voiceId}`);
+    console.log(`🎭 Using voice(s): ${Array.from(new Set(segments.map(segment => segment.voice))).join(', ')}`);
     console.log(`🎵 Output format: MP3`);
 
     // Process each chunk and combine audio
     const allAudioChunks: Buffer[] = [];
 
-    for (let i = 0; i < textChunks.length; i++) {
-      const chunk = textChunks[i];
-      console.log(`🎵 Processing chunk ${i + 1}/${textChunks.length} (${chunk.length} chars)...`);
+    for (let i = 0; i < segments.length; i++) {
+      const { text: chunk, voice } = segments[i];
+      console.log(`🎵 Processing chunk ${i + 1}/${segments.length} (${chunk.length} chars, ${voice})...`);
 
       // Convert text to speech using the speak method
       const response = await (deepgram as any).speak.request(
         { text: chunk },
         {
-          model: voiceId,
+          model: voice,
           encoding: 'mp3',
         }
       );
@@ -124,6 +160,7 @@ export async function synthesizePodcast(script: string): Promise<Buffer> {
       // Convert chunks to Buffer
       const audioBuffer = Buffer.concat(chunks.map(chunk => Buffer.from(chunk)));
       allAudioChunks.push(audioBuffer);
+      recordTtsUsage('Text-to-speech', voice, chunk.length);
     }
 
     // Combine all audio chunks
@@ -135,7 +172,7 @@ export async function synthesizePodcast(script: string): Promise<Buffer> {
 
     console.log('✅ Text-to-speech synthesis completed successfully!');
     console.log(`📊 Audio buffer size: ${fileSizeKB} KB`);
-    console.log(`⏱️ Estimated duration: ${Math.round(script.split(' ').length / 2.5)} seconds`);
+    console.log(`⏱️ Estimated duration: ${Math.round(spokenText.split(' ').length / 2.5)} seconds`);
 
     return finalAudioBuffer;
 
@@ -0,0 +1,73 @@
+import { Article, FeedConfig } from '../../types/types';
+import { SourceAdapter, buildArticle } from '../sourceAdapter';
+
+/**
+ * A release of the GitHub REST API
+ */
+type GitHubRelease = {
+  name?: string | null;
+  tag_name: string;
+  html_url: string;
+  published_at?: string | null;
+  body?: string | null;
+  draft?: boolean;
+};
+
+/**
+ * Strips the most common Markdown syntax from release notes
+ */
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ') // code blocks
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ') // images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // links -> text
+    .replace(/^#{1,6}\s*/gm, '') // headings
+    .replace(/^\s*[-*+]\s+/gm, '') // list bullets
+    .replace(/[*_`~]/g, ''); // emphasis and inline code
+}
+
+/**
+ * Adapter for the GitHub releases API of a single repository
+ * (e.g. https://api.github.com/repos/vllm-project/vllm/releases)
+ * Set GITHUB_TOKEN to raise the API rate limit.
+ */
+export const githubReleasesAdapter: SourceAdapter = {
+  type: 'github-releases',
+
+  getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.github+json',
+    };
+    if (process.env.GITHUB_TOKEN) {
+      headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+    }
+    return headers;
+  },
+
+  async parse(body: string, source: FeedConfig): Promise<Article[]> {
+    const releases = JSON.parse(body) as GitHubRelease[];
+
+    if (!Array.isArray(releases)) {
+      throw new Error(
+        'Unexpected GitHub response: expected a list of releases'
+      );
+    }
+
+    return releases
+      .filter((release) => !release.draft)
+      .map((release) => {
+        const name = release.name || release.tag_name;
+        // Release names often already contain the project name ("vLLM v0.11.0")
+        const title = name.toLowerCase().includes(source.name.toLowerCase())
+          ? name
+          : `${source.name} ${name}`;
+
+        return buildArticle(source, {
+          title,
+          link: release.html_url,
+          date: release.published_at || undefined,
+          summary: stripMarkdown(release.body || ''),
+        });
+      });
+  },
+};
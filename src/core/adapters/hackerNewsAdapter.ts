@@ -0,0 +1,50 @@
+import { Article, FeedConfig } from '../../types/types';
+import { SourceAdapter, buildArticle } from '../sourceAdapter';
+
+/**
+ * A story hit of the Hacker News Algolia search API
+ */
+type HackerNewsHit = {
+  objectID: string;
+  title?: string | null;
+  url?: string | null;
+  created_at?: string;
+  points?: number | null;
+  num_comments?: number | null;
+  story_text?: string | null;
+};
+
+/**
+ * Adapter for the Hacker News Algolia search API
+ * (e.g. https://hn.algolia.com/api/v1/search?tags=front_page&query=AI)
+ */
+export const hackerNewsAdapter: SourceAdapter = {
+  type: 'hackernews',
+
+  getHeaders(): Record<string, string> {
+    return { Accept: 'application/json' };
+  },
+
+  async parse(body: string, source: FeedConfig): Promise<Article[]> {
+    const data = JSON.parse(body) as { hits?: HackerNewsHit[] };
+
+    if (!Array.isArray(data.hits)) {
+      throw new Error('Unexpected Hacker News response: missing "hits" array');
+    }
+
+    return data.hits
+      .filter((hit) => hit.title)
+      .map((hit) => {
+        const discussion = `https://news.ycombinator.com/item?id=${hit.objectID}`;
+        const stats = `${hit.points ?? 0} points and ${hit.num_comments ?? 0} comments on Hacker News.`;
+
+        return buildArticle(source, {
+          title: hit.title || undefined,
+          // Ask HN / Show HN text posts have no external URL
+          link: hit.url || discussion,
+          date: hit.created_at,
+          summary: hit.story_text ? `${hit.story_text} ${stats}` : stats,
+        });
+      });
+  },
+};
@@ -0,0 +1,33 @@
+import Parser from 'rss-parser';
+import { Article, FeedConfig } from '../../types/types';
+import { SourceAdapter, buildArticle } from '../sourceAdapter';
+
+// RSS Parser instance
+const parser = new Parser();
+
+/**
+ * Adapter for plain RSS and Atom feeds
+ */
+export const rssAdapter: SourceAdapter = {
+  type: 'rss',
+
+  getHeaders(): Record<string, string> {
+    return {
+      Accept:
+        'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+    };
+  },
+
+  async parse(body: string, source: FeedConfig): Promise<Article[]> {
+    const feed = await parser.parseString(body);
+
+    return feed.items.map((item) =>
+      buildArticle(source, {
+        title: item.title,
+        link: item.link,
+        date: item.isoDate || item.pubDate,
+        summary: item.contentSnippet || item.content || item.description,
+      })
+    );
+  },
+};
@@ -0,0 +1,123 @@
+import { Article, ArticleCategory } from '../types/types';
+
+/**
+ * Editorial categories the selector assigns to each chosen article
+ */
+
+/**
+ * Display labels of the selection categories, in the order the email lists them
+ */
+export const ARTICLE_CATEGORY_LABELS: Record<ArticleCategory, string> = {
+  'product-launch': 'Product Launches',
+  research: 'Research',
+  'open-source': 'Open Source',
+  policy: 'Policy',
+  funding: 'Funding',
+};
+
+export const ARTICLE_CATEGORIES = Object.keys(
+  ARTICLE_CATEGORY_LABELS
+) as ArticleCategory[];
+
+// Title and summary keywords used to guess the category of stories the
+// selector did not rank (so they can count towards the category quotas)
+const CATEGORY_KEYWORDS: Record<ArticleCategory, string[]> = {
+  'product-launch': [
+    'launch',
+    'launches',
+    'released',
+    'releases',
+    'unveils',
+    'introduces',
+    'announces',
+    'rolls out',
+    'now available',
+    'general availability',
+  ],
+  research: [
+    'research',
+    'researchers',
+    'paper',
+    'study',
+    'benchmark',
+    'arxiv',
+    'dataset',
+    'interpretability',
+    'alignment',
+  ],
+  'open-source': [
+    'open source',
+    'open-source',
+    'open-weight',
+    'open weights',
+    'github',
+    'hugging face',
+    'apache 2.0',
+    'mit license',
+  ],
+  policy: [
+    'regulation',
+    'regulators',
+    'ai act',
+    'lawsuit',
+    'copyright',
+    'policy',
+    'executive order',
+    'senate',
+    'congress',
+    'ban',
+  ],
+  funding: [
+    'funding',
+    'raises',
+    'raised',
+    'series a',
+    'series b',
+    'series c',
+    'valuation',
+    'investment',
+    'investors',
+    'acquires',
+    'acquisition',
+  ],
+};
+
+/**
+ * Guesses the category of an article from keywords in its title and summary
+ * @returns The category with the most keyword matches (title matches count
+ * double), or undefined when no keyword matches
+ */
+export function guessArticleCategory(
+  article: Article
+): ArticleCategory | undefined {
+  const countMatches = (text: string, keywords: string[]): number =>
+    keywords.filter((keyword) =>
+      new RegExp(
+        `\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`,
+        'i'
+      ).test(text)
+    ).length;
+
+  let best: { category: ArticleCategory; score: number } | undefined;
+  for (const category of ARTICLE_CATEGORIES) {
+    const keywords = CATEGORY_KEYWORDS[category];
+    const score =
+      2 * countMatches(article.title, keywords) +
+      countMatches(article.summary || '', keywords);
+    if (score > 0 && (!best || score > best.score)) {
+      best = { category, score };
+    }
+  }
+
+  return best?.category;
+}
+
+/**
+ * Returns true for known category ids
+ */
+export function isArticleCategory(value: unknown): value is ArticleCategory {
+  return (
+    typeof value === 'string' &&
+    ARTICLE_CATEGORIES.includes(value as ArticleCategory)
+  );
+}
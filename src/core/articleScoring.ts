@@ -0,0 +1,420 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import {
+  Article,
+  ArticleCategory,
+  ScoreComponents,
+  ScoredArticle,
+  SelectionRationale,
+} from '../types/types';
+import { appendJsonLines } from '../utils/stateStore';
+import { AppliedOverride } from './editorialOverrides';
+import { ARTICLE_CATEGORIES, isArticleCategory } from './articleCategories';
+import { DiversityResult } from './selectionDiversity';
+import {
+  buildTfIdfVectors,
+  cosineSimilarity,
+  tokenize,
+} from '../utils/textSimilarity';
+import { getArticlePriority, getEnabledFeeds } from './feedRegistry';
+import { getCoveredArticles } from './articleStore';
+import { getAlsoReportedBy } from './storyClustering';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Deterministic article scoring
+ *
+ * Ranks candidate stories with a transparent, reproducible score before the
+ * LLM sees them. The score is a weighted average of five signals between 0
+ * and 1: recency, source priority, cross-source coverage, topic keyword
+ * matches and novelty against recently covered stories. Weights and topics
+ * live in config/scoring.json; every run's scores are appended to
+ * articleScores.jsonl in the state directory so the weights can be tuned.
+ */
+
+const DEFAULT_SCORING_CONFIG_PATH = 'config/scoring.json';
+
+// State file with one scoring record per run
+const SCORE_LOG_FILE = 'articleScores.jsonl';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const COMPONENTS: (keyof ScoreComponents)[] = [
+  'recency',
+  'priority',
+  'coverage',
+  'topics',
+  'novelty',
+];
+
+export type ScoringTopic = {
+  name: string;
+  weight: number;
+  keywords: string[];
+};
+
+export type CategoryQuota = { min?: number; max?: number };
+
+/**
+ * Rules the final selection must meet (see core/selectionDiversity.ts)
+ */
+export type DiversityRules = {
+  maxPerSource: number;
+  minDistinctSources: number;
+  categoryQuotas: Partial<Record<ArticleCategory, CategoryQuota>>;
+};
+
+export type ScoringConfig = {
+  weights: ScoreComponents;
+  recencyHalfLifeHours: number;
+  coverageSaturation: number; // Number of other outlets that gives a full coverage score
+  noveltyLookbackDays: number;
+  maxCandidates: number; // Top-scored stories passed to the LLM selector
+  diversity: DiversityRules;
+  topics: ScoringTopic[];
+};
+
+// Cached config (loaded once per process)
+let cachedConfig: ScoringConfig | null = null;
+
+/**
+ * Returns true for finite numbers >= 0 (or > 0 when strictly positive is required)
+ */
+function isValidNumber(value: unknown, strictlyPositive = false): boolean {
+  return (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    (strictlyPositive ? value > 0 : value >= 0)
+  );
+}
+
+/**
+ * Validates the parsed content of the scoring config file
+ * @param data - Parsed JSON content
+ * @returns Validated scoring config
+ * @throws Error listing every validation problem found
+ */
+export function validateScoringConfig(data: unknown): ScoringConfig {
+  const errors: string[] = [];
+  const raw =
+    data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+
+  const weights = (raw.weights || {}) as Record<string, unknown>;
+  for (const component of COMPONENTS) {
+    if (!isValidNumber(weights[component])) {
+      errors.push(`weights.${component} must be a number >= 0`);
+    }
+  }
+  if (
+    COMPONENTS.every((component) => isValidNumber(weights[component])) &&
+    COMPONENTS.reduce((sum, c) => sum + (weights[c] as number), 0) === 0
+  ) {
+    errors.push('weights must not all be 0');
+  }
+
+  for (const field of [
+    'recencyHalfLifeHours',
+    'coverageSaturation',
+    'noveltyLookbackDays',
+    'maxCandidates',
+  ]) {
+    if (!isValidNumber(raw[field], true)) {
+      errors.push(`${field} must be a positive number`);
+    }
+  }
+
+  const diversity =
+    raw.diversity && typeof raw.diversity === 'object'
+      ? (raw.diversity as Record<string, unknown>)
+      : {};
+  for (const field of ['maxPerSource', 'minDistinctSources']) {
+    if (
+      !Number.isInteger(diversity[field]) ||
+      (diversity[field] as number) < 1
+    ) {
+      errors.push(`diversity.${field} must be a positive integer`);
+    }
+  }
+  const categoryQuotas = (diversity.categoryQuotas || {}) as Record<
+    string,
+    Record<string, unknown>
+  >;
+  for (const [category, quota] of Object.entries(categoryQuotas)) {
+    if (!isArticleCategory(category)) {
+      errors.push(
+        `diversity.categoryQuotas.${category} is not a category (${ARTICLE_CATEGORIES.join(', ')})`
+      );
+    }
+    for (const bound of ['min', 'max']) {
+      if (
+        quota?.[bound] !== undefined &&
+        (!Number.isInteger(quota[bound]) || (quota[bound] as number) < 0)
+      ) {
+        errors.push(
+          `diversity.categoryQuotas.${category}.${bound} must be an integer >= 0`
+        );
+      }
+    }
+  }
+
+  const topics = Array.isArray(raw.topics) ? raw.topics : [];
+  if (!Array.isArray(raw.topics)) {
+    errors.push('topics must be an array');
+  }
+  topics.forEach((topic: Record<string, unknown>, index) => {
+    if (typeof topic?.name !== 'string' || !topic.name.trim()) {
+      errors.push(`topics[${index}].name must be a non-empty string`);
+    }
+    if (!isValidNumber(topic?.weight)) {
+      errors.push(`topics[${index}].weight must be a number >= 0`);
+    }
+    if (
+      !Array.isArray(topic?.keywords) ||
+      topic.keywords.length === 0 ||
+      !topic.keywords.every((k: unknown) => typeof k === 'string' && k.trim())
+    ) {
+      errors.push(`topics[${index}].keywords must be a non-empty string array`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid scoring config (${errors.length} problem(s)):\n` +
+        errors.map((error) => `  - ${error}`).join('\n')
+    );
+  }
+
+  return {
+    weights: weights as ScoreComponents,
+    recencyHalfLifeHours: raw.recencyHalfLifeHours as number,
+    coverageSaturation: raw.coverageSaturation as number,
+    noveltyLookbackDays: raw.noveltyLookbackDays as number,
+    maxCandidates: Math.round(raw.maxCandidates as number),
+    diversity: {
+      maxPerSource: diversity.maxPerSource as number,
+      minDistinctSources: diversity.minDistinctSources as number,
+      categoryQuotas: categoryQuotas as DiversityRules['categoryQuotas'],
+    },
+    topics: topics as ScoringTopic[],
+  };
+}
+
+/**
+ * Loads and validates the scoring config
+ * SCORING_CONFIG_PATH can point to an alternative file (relative to the working directory)
+ */
+export function loadScoringConfig(): ScoringConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = path.resolve(
+    process.cwd(),
+    process.env.SCORING_CONFIG_PATH || DEFAULT_SCORING_CONFIG_PATH
+  );
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read scoring config at ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  cachedConfig = validateScoringConfig(data);
+  return cachedConfig;
+}
+
+/**
+ * Escapes a keyword for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Returns the topics whose keywords appear in the article's title or summary
+ */
+function matchTopics(article: Article, topics: ScoringTopic[]): ScoringTopic[] {
+  const text = `${article.title} ${article.summary}`;
+  return topics.filter((topic) =>
+    topic.keywords.some((keyword) =>
+      new RegExp(`\\b${escapeRegExp(keyword.trim())}\\b`, 'i').test(text)
+    )
+  );
+}
+
+/**
+ * Computes the novelty of each article against stories covered recently
+ * @returns 1 - highest title similarity to a covered story, per article
+ */
+function computeNovelty(
+  articles: Article[],
+  config: ScoringConfig,
+  episodeId: string | undefined,
+  now: Date
+): number[] {
+  const since = now.getTime() - config.noveltyLookbackDays * 24 * HOUR_MS;
+  const covered = getCoveredArticles(episodeId).filter(
+    (stored) => new Date(stored.firstSeenAt).getTime() >= since
+  );
+
+  if (covered.length === 0) {
+    return articles.map(() => 1);
+  }
+
+  // Stored articles only keep their titles, so compare titles with titles
+  const vectors = buildTfIdfVectors([
+    ...articles.map((article) => tokenize(article.title)),
+    ...covered.map((stored) => tokenize(stored.title)),
+  ]);
+  const coveredVectors = vectors.slice(articles.length);
+
+  return articles.map((_, index) => {
+    const highest = Math.max(
+      ...coveredVectors.map((vector) =>
+        cosineSimilarity(vectors[index], vector)
+      )
+    );
+    return 1 - Math.min(1, highest);
+  });
+}
+
+/**
+ * Scores candidate stories
+ * @param articles - Candidate stories (after clustering)
+ * @param episodeId - Episode being generated (its own coverage does not count against novelty)
+ * @param now - Reference time for recency
+ * @returns Scored articles, highest score first
+ */
+export function scoreArticles(
+  articles: Article[],
+  episodeId?: string,
+  now: Date = new Date()
+): ScoredArticle[] {
+  const config = loadScoringConfig();
+  const maxPriority = Math.max(
+    1,
+    ...getEnabledFeeds().map((feed) => feed.priority)
+  );
+  const novelty = computeNovelty(articles, config, episodeId, now);
+  const totalWeight = COMPONENTS.reduce(
+    (sum, component) => sum + config.weights[component],
+    0
+  );
+
+  const scored = articles.map((article, index) => {
+    const ageHours = article.pubDate
+      ? Math.max(
+          0,
+          (now.getTime() - new Date(article.pubDate).getTime()) / HOUR_MS
+        )
+      : undefined;
+    const matchedTopics = matchTopics(article, config.topics);
+
+    const components: ScoreComponents = {
+      // Undated stories get a neutral recency
+      recency:
+        ageHours === undefined
+          ? 0.5
+          : Math.pow(0.5, ageHours / config.recencyHalfLifeHours),
+      priority: Math.min(1, getArticlePriority(article) / maxPriority),
+      coverage: Math.min(
+        1,
+        getAlsoReportedBy(article).length / config.coverageSaturation
+      ),
+      topics: Math.min(
+        1,
+        matchedTopics.reduce((sum, topic) => sum + topic.weight, 0)
+      ),
+      novelty: novelty[index],
+    };
+
+    const score =
+      COMPONENTS.reduce(
+        (sum, component) =>
+          sum + config.weights[component] * components[component],
+        0
+      ) / totalWeight;
+
+    return {
+      article,
+      score,
+      components,
+      matchedTopics: matchedTopics.map((topic) => topic.name),
+    };
+  });
+
+  // Ties are broken by id so the ranking is fully reproducible
+  return scored.sort(
+    (a, b) => b.score - a.score || a.article.id.localeCompare(b.article.id)
+  );
+}
+
+/**
+ * Formats a score and its components for logs
+ */
+export function formatScore(scored: ScoredArticle): string {
+  const parts = COMPONENTS.map(
+    (component) => `${component} ${scored.components[component].toFixed(2)}`
+  );
+  return `${scored.score.toFixed(3)} (${parts.join(', ')})`;
+}
+
+/**
+ * Appends the scores of a run to the score log
+ * @param runId - Episode or run identifier
+ * @param scored - All scored stories of the run
+ * @param candidateIds - Ids passed on to the LLM selector
+ * @param rationales - Articles the selector finally picked, with their category and reason
+ * @param overrides - Editorial overrides that matched articles in this run
+ * @param diversity - Changes made by the diversity rules
+ */
+export function recordScoringRun(
+  runId: string,
+  scored: ScoredArticle[],
+  candidateIds: string[],
+  rationales: SelectionRationale[],
+  overrides: AppliedOverride[] = [],
+  diversity?: DiversityResult
+): void {
+  const candidates = new Set(candidateIds);
+  const selected = new Map(
+    rationales.map((rationale) => [rationale.id, rationale])
+  );
+
+  try {
+    appendJsonLines(SCORE_LOG_FILE, [
+      {
+        runId,
+        at: new Date().toISOString(),
+        weights: loadScoringConfig().weights,
+        overrides,
+        diversity: diversity && {
+          addedIds: diversity.addedIds,
+          removedIds: diversity.removedIds,
+          unmetRules: diversity.unmetRules,
+        },
+        articles: scored.map((entry, index) => ({
+          rank: index + 1,
+          id: entry.article.id,
+          title: entry.article.title,
+          source: entry.article.source,
+          score: Number(entry.score.toFixed(4)),
+          components: entry.components,
+          matchedTopics: entry.matchedTopics,
+          candidate: candidates.has(entry.article.id),
+          selected: selected.has(entry.article.id),
+          category: selected.get(entry.article.id)?.category,
+          reason: selected.get(entry.article.id)?.reason,
+        })),
+      },
+    ]);
+  } catch (error) {
+    console.warn('⚠️ Failed to record article scores:', error);
+  }
+}
@@ -0,0 +1,168 @@
+import {
+  Article,
+  EpisodeRecord,
+  ScriptCitation,
+  StoredArticle,
+} from '../types/types';
+import { appendJsonLines, readJsonLines } from '../utils/stateStore';
+
+/**
+ * Persistent article store
+ *
+ * An append-only JSON Lines log (output/state/articles.jsonl) keyed by
+ * Article.id. A "seen" event is written the first time an article is fetched
+ * and an "episode" event lists the articles an episode used. The current state
+ * is rebuilt by replaying the log.
+ */
+
+const ARTICLE_STORE_FILE = 'articles.jsonl';
+
+type SeenEvent = {
+  type: 'seen';
+  id: string;
+  at: string;
+  source: string;
+  title: string;
+  link: string;
+};
+
+type EpisodeEvent = {
+  type: 'episode';
+  episodeId: string;
+  at: string;
+  articleIds: string[];
+  templates?: Record<string, string>;
+  citations?: ScriptCitation[];
+};
+
+type StoreEvent = SeenEvent | EpisodeEvent;
+
+export type ArticleStoreSnapshot = {
+  articles: Map<string, StoredArticle>;
+  episodes: EpisodeRecord[]; // Oldest first
+};
+
+/**
+ * Loads the article store by replaying the event log
+ */
+export function loadArticleStore(): ArticleStoreSnapshot {
+  const articles = new Map<string, StoredArticle>();
+  const episodes: EpisodeRecord[] = [];
+
+  for (const event of readJsonLines<StoreEvent>(ARTICLE_STORE_FILE)) {
+    if (event.type === 'seen') {
+      if (!articles.has(event.id)) {
+        articles.set(event.id, {
+          id: event.id,
+          firstSeenAt: event.at,
+          source: event.source,
+          title: event.title,
+          link: event.link,
+          episodes: [],
+        });
+      }
+    } else if (event.type === 'episode') {
+      episodes.push({
+        episodeId: event.episodeId,
+        at: event.at,
+        articleIds: event.articleIds,
+        templates: event.templates,
+        citations: event.citations,
+      });
+      for (const id of event.articleIds) {
+        const stored = articles.get(id);
+        if (stored && !stored.episodes.includes(event.episodeId)) {
+          stored.episodes.push(event.episodeId);
+        }
+      }
+    }
+  }
+
+  return { articles, episodes };
+}
+
+/**
+ * Records fetched articles, writing a "seen" event for each new id
+ * @param articles - Articles fetched in this run
+ * @returns Map of article id to the time it was first seen
+ */
+export function recordSeenArticles(articles: Article[]): Map<string, string> {
+  const store = loadArticleStore();
+  const now = new Date().toISOString();
+  const firstSeen = new Map<string, string>();
+  const events: SeenEvent[] = [];
+
+  for (const article of articles) {
+    const stored = store.articles.get(article.id);
+    if (stored) {
+      firstSeen.set(article.id, stored.firstSeenAt);
+    } else if (!firstSeen.has(article.id)) {
+      firstSeen.set(article.id, now);
+      events.push({
+        type: 'seen',
+        id: article.id,
+        at: now,
+        source: article.source,
+        title: article.title,
+        link: article.link,
+      });
+    }
+  }
+
+  appendJsonLines(ARTICLE_STORE_FILE, events);
+
+  if (events.length > 0) {
+    console.log(
+      `🗃️ Recorded ${events.length} new articles in the article store`
+    );
+  }
+
+  return firstSeen;
+}
+
+/**
+ * Records the articles used by an episode
+ * @param episodeId - Episode identifier (e.g. the run date)
+ * @param articles - Articles included in the episode
+ * @param templates - Template versions the episode was generated with
+ * @param citations - Sentence-to-article citation map of the script
+ */
+export function recordEpisode(
+  episodeId: string,
+  articles: Article[],
+  templates?: Record<string, string>,
+  citations?: ScriptCitation[]
+): void {
+  // Make sure every used article has a "seen" event to attach the episode to
+  recordSeenArticles(articles);
+
+  const event: EpisodeEvent = {
+    type: 'episode',
+    episodeId,
+    at: new Date().toISOString(),
+    // Other outlets' copies of a story count as covered too
+    articleIds: articles.flatMap((article) => [
+      article.id,
+      ...(article.relatedSources || []).map((related) => related.id),
+    ]),
+    templates,
+    citations,
+  };
+
+  appendJsonLines(ARTICLE_STORE_FILE, [event]);
+  console.log(
+    `🗃️ Recorded episode ${episodeId} with ${articles.length} articles`
+  );
+}
+
+/**
+ * Returns the stored articles already covered by an episode
+ * @param excludeEpisodeId - Episode whose usage is ignored (e.g. a rerun of today's episode)
+ */
+export function getCoveredArticles(excludeEpisodeId?: string): StoredArticle[] {
+  const store = loadArticleStore();
+
+  return Array.from(store.articles.values()).filter((article) =>
+    article.episodes.some((episodeId) => episodeId !== excludeEpisodeId)
+  );
+}
@@ -0,0 +1,241 @@
+import dotenv from 'dotenv';
+import striptags from 'striptags';
+import { Article } from '../types/types';
+import { fetchTextWithRetry, getDefaultRetryOptions } from '../utils/http';
+import { decodeHtmlEntities, truncateText, uniqueBy } from '../utils/textUtils';
+import {
+  canonicalizeUrl,
+  extractCanonicalUrl,
+  getArticleUrlKey,
+} from '../utils/urlUtils';
+import { mapWithConcurrency, getPositiveIntEnv } from '../utils/utils';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Full-article content extraction
+ *
+ * Downloads the page of each selected article and pulls out the main body text
+ * with a readability-style heuristic: boilerplate elements are removed, the
+ * search is narrowed to <article>/<main> when present, and only text blocks
+ * that are long enough and not dominated by links are kept. The result is
+ * stored on Article.content within a per-article and a total size budget;
+ * when extraction fails the article keeps only its feed summary. The page's
+ * rel=canonical URL is recorded on Article.canonicalUrl along the way.
+ */
+
+const USER_AGENT =
+  'Mozilla/5.0 (compatible; daily-ai-news/1.0; +https://github.com/Vicking28/daily_ai_news)';
+
+// Elements that never contain article body text
+const BOILERPLATE_TAGS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'form',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'button',
+  'select',
+  'figcaption',
+];
+
+// Block-level tags used to split the page into text blocks
+const BLOCK_SPLIT_PATTERN =
+  /<\/?(?:p|div|section|article|li|ul|ol|h[1-6]|blockquote|pre|table|tr|td|br|hr)\b[^>]*>/gi;
+
+// Blocks shorter than this are treated as boilerplate (menus, bylines, buttons)
+const MIN_BLOCK_LENGTH = 60;
+
+// Blocks where links make up more than this share of the text are dropped
+const MAX_LINK_DENSITY = 0.4;
+
+// Extracted text shorter than this is considered a failed extraction (paywall, SPA shell)
+const MIN_CONTENT_LENGTH = 300;
+
+/**
+ * Size and concurrency settings, overridable via environment variables
+ */
+function getExtractionSettings(): {
+  maxCharsPerArticle: number;
+  totalBudgetChars: number;
+  concurrency: number;
+} {
+  return {
+    maxCharsPerArticle: getPositiveIntEnv(
+      'CONTENT_MAX_CHARS_PER_ARTICLE',
+      4000
+    ),
+    totalBudgetChars: getPositiveIntEnv('CONTENT_TOTAL_BUDGET_CHARS', 24000),
+    concurrency: getPositiveIntEnv('CONTENT_CONCURRENCY', 3),
+  };
+}
+
+/**
+ * Converts an HTML fragment to normalized plain text
+ */
+function toPlainText(html: string): string {
+  return decodeHtmlEntities(striptags(html)).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Returns the longest match of an element in the HTML, or undefined
+ */
+function findLargestElement(html: string, tag: string): string | undefined {
+  const pattern = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'gi');
+  let largest: string | undefined;
+
+  for (const match of html.matchAll(pattern)) {
+    if (!largest || match[1].length > largest.length) {
+      largest = match[1];
+    }
+  }
+
+  return largest;
+}
+
+/**
+ * Extracts the main body text of an HTML page
+ * @param html - Full page HTML
+ * @returns Plain text paragraphs separated by blank lines ('' if nothing usable)
+ */
+export function extractMainText(html: string): string {
+  let doc = html.replace(/<!--[\s\S]*?-->/g, ' ');
+
+  for (const tag of BOILERPLATE_TAGS) {
+    doc = doc.replace(
+      new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, 'gi'),
+      ' '
+    );
+  }
+
+  // Narrow the search to the main content container when the page has one
+  const container =
+    findLargestElement(doc, 'article') ||
+    findLargestElement(doc, 'main') ||
+    findLargestElement(doc, 'body') ||
+    doc;
+
+  const paragraphs: string[] = [];
+
+  for (const block of container.split(BLOCK_SPLIT_PATTERN)) {
+    const text = toPlainText(block);
+    if (text.length < MIN_BLOCK_LENGTH) {
+      continue;
+    }
+
+    const linkText = Array.from(block.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi))
+      .map((match) => toPlainText(match[1]))
+      .join('');
+    if (linkText.length / text.length > MAX_LINK_DENSITY) {
+      continue;
+    }
+
+    paragraphs.push(text);
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * Downloads a single article page, extracts its main text and reads its canonical URL
+ * @param article - Selected article
+ * @param budget - Maximum number of characters of extracted text
+ * @returns The article with `content` and `canonicalUrl` set where available
+ */
+async function extractFromPage(
+  article: Article,
+  budget: number
+): Promise<Article> {
+  if (!article.link) {
+    return article;
+  }
+
+  try {
+    const response = await fetchTextWithRetry(
+      article.link,
+      { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+      { ...getDefaultRetryOptions(), maxRetries: 1 }
+    );
+
+    const contentType = response.headers.get('content-type') || '';
+    if (response.status !== 200 || !contentType.includes('html')) {
+      console.warn(
+        `⚠️ Skipping content extraction for ${article.link} (HTTP ${response.status}, ${contentType || 'no content type'})`
+      );
+      return article;
+    }
+
+    // rel=canonical, else the URL we ended up at after redirects (feed proxies, shorteners)
+    const canonicalUrl =
+      extractCanonicalUrl(response.body, response.url) ||
+      canonicalizeUrl(response.url);
+
+    const text = extractMainText(response.body);
+    if (text.length < Math.max(MIN_CONTENT_LENGTH, article.summary.length)) {
+      console.warn(
+        `⚠️ Extracted text for "${article.title}" is too short (${text.length} chars), keeping the feed summary`
+      );
+      return { ...article, canonicalUrl };
+    }
+
+    return { ...article, canonicalUrl, content: truncateText(text, budget) };
+  } catch (error) {
+    console.warn(
+      `⚠️ Content extraction failed for ${article.link}:`,
+      error instanceof Error ? error.message : error
+    );
+    return article;
+  }
+}
+
+/**
+ * Adds the extracted body text to each selected article
+ * Articles whose pages turn out to share a canonical URL are the same story;
+ * only the first of them is kept.
+ * @param articles - Selected articles
+ * @returns The articles, with `content` and `canonicalUrl` set where extraction succeeded
+ */
+export async function extractArticleContent(
+  articles: Article[]
+): Promise<Article[]> {
+  if (articles.length === 0) {
+    return [];
+  }
+
+  const settings = getExtractionSettings();
+  const perArticleBudget = Math.min(
+    settings.maxCharsPerArticle,
+    Math.floor(settings.totalBudgetChars / articles.length)
+  );
+
+  console.log(
+    `📖 Extracting full content for ${articles.length} articles (budget ${perArticleBudget} chars each)...`
+  );
+
+  const enriched = await mapWithConcurrency(
+    articles,
+    settings.concurrency,
+    (article) => extractFromPage(article, perArticleBudget)
+  );
+
+  const unique = uniqueBy(enriched, (article) => getArticleUrlKey(article));
+  if (unique.length < enriched.length) {
+    console.log(
+      `🔄 Dropped ${enriched.length - unique.length} selected articles that share a canonical URL`
+    );
+  }
+
+  const extracted = unique.filter((article) => article.content).length;
+  console.log(
+    `✅ Extracted content for ${extracted}/${unique.length} articles (others use the feed summary)`
+  );
+
+  return unique;
+}
@@ -0,0 +1,224 @@
+import { Article } from '../types/types';
+import { readJsonState, writeJsonState } from '../utils/stateStore';
+import { getUrlKey, getArticleUrlKey } from '../utils/urlUtils';
+import { getArticleSourceName } from './feedRegistry';
+
+/**
+ * Editorial overrides
+ *
+ * Lets editors steer the next episodes without touching prompts: pin an
+ * article (by URL or id) so the next episode selects it, block an article, or block
+ * a whole source or keyword. Overrides are kept in editorialOverrides.json in
+ * the state directory (mounted in Docker, so they can be changed without a
+ * rebuild) and are read fresh on every run. An override with an expiry date
+ * is ignored once that moment has passed.
+ */
+
+const OVERRIDES_FILE = 'editorialOverrides.json';
+
+export type OverrideType = 'pin' | 'block' | 'block-source' | 'block-keyword';
+
+export const OVERRIDE_TYPES: OverrideType[] = [
+  'pin',
+  'block',
+  'block-source',
+  'block-keyword',
+];
+
+export type EditorialOverride = {
+  type: OverrideType;
+  value: string; // Article URL or id (pin, block), feed id or source name, or keyword
+  expiresAt?: string; // ISO 8601 date or timestamp; no expiry when omitted
+  note?: string; // Why the override exists (e.g. "sponsored post")
+  createdAt?: string;
+};
+
+/**
+ * An override that matched articles in a run
+ */
+export type AppliedOverride = EditorialOverride & {
+  articleIds: string[];
+};
+
+export type OverrideResult = {
+  articles: Article[]; // Articles left after blocks, without the pinned ones
+  pinned: Article[]; // Pinned articles (bypass filtering, not the covered-story check)
+  applied: AppliedOverride[];
+};
+
+/**
+ * Validates the parsed content of the overrides file
+ * @param data - Parsed JSON content
+ * @returns Validated overrides
+ * @throws Error listing every validation problem found
+ */
+export function validateOverrides(data: unknown): EditorialOverride[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(data)) {
+    throw new Error('Invalid editorial overrides: expected an array');
+  }
+
+  data.forEach((entry: Record<string, unknown>, index) => {
+    const label = `overrides[${index}]`;
+
+    if (!OVERRIDE_TYPES.includes(entry?.type as OverrideType)) {
+      errors.push(`${label}.type must be one of: ${OVERRIDE_TYPES.join(', ')}`);
+    }
+    if (typeof entry?.value !== 'string' || !entry.value.trim()) {
+      errors.push(`${label}.value must be a non-empty string`);
+    }
+    if (
+      entry?.expiresAt !== undefined &&
+      (typeof entry.expiresAt !== 'string' ||
+        Number.isNaN(new Date(entry.expiresAt).getTime()))
+    ) {
+      errors.push(`${label}.expiresAt must be an ISO 8601 date`);
+    }
+    if (entry?.note !== undefined && typeof entry.note !== 'string') {
+      errors.push(`${label}.note must be a string`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid editorial overrides (${errors.length} problem(s)):\n` +
+        errors.map((error) => `  - ${error}`).join('\n')
+    );
+  }
+
+  return data as EditorialOverride[];
+}
+
+/**
+ * Loads all editorial overrides, including expired ones
+ */
+export function loadOverrides(): EditorialOverride[] {
+  return validateOverrides(readJsonState<unknown>(OVERRIDES_FILE, []));
+}
+
+/**
+ * Saves the editorial overrides
+ */
+export function saveOverrides(overrides: EditorialOverride[]): void {
+  writeJsonState(OVERRIDES_FILE, validateOverrides(overrides));
+}
+
+/**
+ * Returns true when the override has expired
+ */
+export function isExpired(override: EditorialOverride, now: Date): boolean {
+  return (
+    override.expiresAt !== undefined &&
+    new Date(override.expiresAt).getTime() <= now.getTime()
+  );
+}
+
+/**
+ * Returns the overrides that have not expired yet
+ */
+export function getActiveOverrides(
+  now: Date = new Date()
+): EditorialOverride[] {
+  return loadOverrides().filter((override) => !isExpired(override, now));
+}
+
+/**
+ * Escapes a keyword for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Returns true when an override matches an article
+ */
+function matchesArticle(
+  override: EditorialOverride,
+  article: Article
+): boolean {
+  const value = override.value.trim();
+
+  switch (override.type) {
+    case 'pin':
+    case 'block':
+      // URLs are compared by their URL key, anything else is an article id
+      return /^https?:\/\//i.test(value)
+        ? getUrlKey(value) === getArticleUrlKey(article)
+        : value === article.id;
+    case 'block-source':
+      return [article.feedId, article.source, getArticleSourceName(article)]
+        .filter((source): source is string => Boolean(source))
+        .some((source) => source.toLowerCase() === value.toLowerCase());
+    case 'block-keyword':
+      return new RegExp(`\\b${escapeRegExp(value)}\\b`, 'i').test(
+        `${article.title} ${article.summary}`
+      );
+  }
+}
+
+/**
+ * Applies the active editorial overrides to the fetched articles
+ * Pins win over blocks, so a pinned article from a blocked source is still used.
+ * @param articles - Fetched articles
+ * @param now - Reference time for expiry
+ * @returns Remaining articles, pinned articles and the overrides that matched
+ */
+export function applyEditorialOverrides(
+  articles: Article[],
+  now: Date = new Date()
+): OverrideResult {
+  const overrides = getActiveOverrides(now);
+  const applied: AppliedOverride[] = [];
+
+  const pins = overrides.filter((override) => override.type === 'pin');
+  const blocks = overrides.filter((override) => override.type !== 'pin');
+
+  const pinned = articles.filter((article) =>
+    pins.some((pin) => matchesArticle(pin, article))
+  );
+  const pinnedIds = new Set(pinned.map((article) => article.id));
+
+  for (const pin of pins) {
+    const matched = pinned.filter((article) => matchesArticle(pin, article));
+    if (matched.length > 0) {
+      applied.push({
+        ...pin,
+        articleIds: matched.map((article) => article.id),
+      });
+    } else {
+      console.warn(
+        `⚠️ Pinned article "${pin.value}" is not among the fetched articles`
+      );
+    }
+  }
+
+  const blockedIds = new Set<string>();
+  for (const block of blocks) {
+    const matched = articles.filter(
+      (article) => !pinnedIds.has(article.id) && matchesArticle(block, article)
+    );
+    if (matched.length > 0) {
+      matched.forEach((article) => blockedIds.add(article.id));
+      applied.push({
+        ...block,
+        articleIds: matched.map((article) => article.id),
+      });
+    }
+  }
+
+  for (const override of applied) {
+    const action = override.type === 'pin' ? '📌 Pinned' : '🚫 Blocked';
+    console.log(
+      `${action} ${override.articleIds.length} article(s) by ${override.type} "${override.value}"${override.note ? ` (${override.note})` : ''}`
+    );
+  }
+
+  return {
+    articles: articles.filter(
+      (article) => !pinnedIds.has(article.id) && !blockedIds.has(article.id)
+    ),
+    pinned,
+    applied,
+  };
+}
@@ -0,0 +1,271 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { EpisodePreset, EpisodeStructure } from '../types/types';
+import { loadShowConfig } from './showConfig';
+import { TEMPLATE_NAMES, TemplateName } from './templates';
+
+// Load environment variables
+dotenv.config();
+
+// Configure dayjs plugins
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Episode format presets
+ *
+ * A preset describes the shape of an episode: how many articles are
+ * selected, the script length, its structure (headlines bulletin, regular
+ * briefing or segmented deep dive) and optionally other template versions as
+ * the prompt variant. Presets are loaded from config/presets.json, which also
+ * maps weekdays to presets for the scheduled run. EPISODE_PRESET selects the
+ * preset used when a run does not name one and the weekday has none.
+ */
+
+const DEFAULT_PRESETS_CONFIG_PATH = 'config/presets.json';
+
+export const EPISODE_STRUCTURES: EpisodeStructure[] = [
+  'headlines',
+  'standard',
+  'deep-dive',
+];
+
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+type PresetsConfig = {
+  defaultPreset: string;
+  weekdays: Record<string, string>; // Weekday name -> preset id
+  presets: EpisodePreset[];
+};
+
+// Cached config (loaded once per process)
+let cachedConfig: PresetsConfig | null = null;
+
+/**
+ * Validates the parsed content of the presets config file
+ * @param data - Parsed JSON content
+ * @returns Validated presets config
+ * @throws Error listing every validation problem found
+ */
+export function validatePresetsConfig(data: unknown): PresetsConfig {
+  const errors: string[] = [];
+  const raw =
+    data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+
+  if (!Array.isArray(raw.presets) || raw.presets.length === 0) {
+    throw new Error(
+      'Invalid presets config: expected a non-empty "presets" array'
+    );
+  }
+
+  const seenIds = new Set<string>();
+  const presets: EpisodePreset[] = [];
+
+  raw.presets.forEach((entry: Record<string, unknown>, index) => {
+    const label = `presets[${index}]`;
+    const startErrors = errors.length;
+
+    if (
+      typeof entry?.id !== 'string' ||
+      !/^[a-z0-9][a-z0-9-]*$/.test(entry.id)
+    ) {
+      errors.push(`${label}.id must be a lowercase slug (a-z, 0-9, -)`);
+    } else if (seenIds.has(entry.id)) {
+      errors.push(`Duplicate preset id: ${entry.id}`);
+    }
+
+    for (const field of ['name', 'description']) {
+      if (
+        typeof entry?.[field] !== 'string' ||
+        !(entry[field] as string).trim()
+      ) {
+        errors.push(`${label}.${field} must be a non-empty string`);
+      }
+    }
+
+    if (
+      !Number.isInteger(entry?.maxArticles) ||
+      (entry.maxArticles as number) < 1
+    ) {
+      errors.push(`${label}.maxArticles must be a positive integer`);
+    }
+
+    const targetWords = entry?.targetWords as
+      | Record<string, unknown>
+      | undefined;
+    if (
+      targetWords !== undefined &&
+      (!Number.isInteger(targetWords?.min) ||
+        !Number.isInteger(targetWords?.max) ||
+        (targetWords.min as number) <= 0 ||
+        (targetWords.min as number) > (targetWords.max as number))
+    ) {
+      errors.push(
+        `${label}.targetWords must be { min, max } with 0 < min <= max`
+      );
+    }
+
+    if (!EPISODE_STRUCTURES.includes(entry?.structure as EpisodeStructure)) {
+      errors.push(
+        `${label}.structure must be one of: ${EPISODE_STRUCTURES.join(', ')}`
+      );
+    }
+
+    const templates = entry?.templates ?? {};
+    if (
+      !templates ||
+      typeof templates !== 'object' ||
+      !Object.values(templates).every(
+        (version) => typeof version === 'string' && version.trim()
+      )
+    ) {
+      errors.push(
+        `${label}.templates must be an object of template name -> version`
+      );
+    } else {
+      for (const name of Object.keys(templates)) {
+        if (!TEMPLATE_NAMES.includes(name as TemplateName)) {
+          errors.push(
+            `${label}.templates: unknown template "${name}" (expected one of: ${TEMPLATE_NAMES.join(', ')})`
+          );
+        }
+      }
+    }
+
+    if (errors.length > startErrors) {
+      return;
+    }
+
+    seenIds.add(entry.id as string);
+    presets.push({
+      id: entry.id as string,
+      name: (entry.name as string).trim(),
+      description: (entry.description as string).trim(),
+      maxArticles: entry.maxArticles as number,
+      targetWords: targetWords as EpisodePreset['targetWords'],
+      structure: entry.structure as EpisodeStructure,
+      templates: templates as Record<string, string>,
+    });
+  });
+
+  const defaultPreset =
+    typeof raw.defaultPreset === 'string' ? raw.defaultPreset : '';
+  if (errors.length === 0 && !seenIds.has(defaultPreset)) {
+    errors.push(
+      `defaultPreset must be one of: ${Array.from(seenIds).join(', ')}`
+    );
+  }
+
+  const weekdays = raw.weekdays ?? {};
+  if (!weekdays || typeof weekdays !== 'object' || Array.isArray(weekdays)) {
+    errors.push('weekdays must be an object of weekday -> preset id');
+  } else {
+    for (const [day, presetId] of Object.entries(weekdays)) {
+      if (!WEEKDAYS.includes(day)) {
+        errors.push(
+          `weekdays: unknown weekday "${day}" (expected lowercase names: ${WEEKDAYS.join(', ')})`
+        );
+      } else if (errors.length === 0 && !seenIds.has(presetId)) {
+        errors.push(`weekdays.${day}: unknown preset "${presetId}"`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid presets config (${errors.length} problem(s)):\n` +
+        errors.map((error) => `  - ${error}`).join('\n')
+    );
+  }
+
+  return {
+    defaultPreset,
+    weekdays: weekdays as Record<string, string>,
+    presets,
+  };
+}
+
+/**
+ * Loads and validates the presets config
+ * PRESETS_CONFIG_PATH can point to an alternative file (relative to the working directory)
+ */
+export function loadPresetsConfig(): PresetsConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = path.resolve(
+    process.cwd(),
+    process.env.PRESETS_CONFIG_PATH || DEFAULT_PRESETS_CONFIG_PATH
+  );
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read presets config at ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  cachedConfig = validatePresetsConfig(data);
+  return cachedConfig;
+}
+
+/**
+ * Returns an episode preset by id
+ * @param presetId - Preset id; defaults to EPISODE_PRESET, then the config's defaultPreset
+ * @throws Error when the preset does not exist
+ */
+export function getEpisodePreset(presetId?: string): EpisodePreset {
+  const config = loadPresetsConfig();
+  const id = presetId || process.env.EPISODE_PRESET || config.defaultPreset;
+  const preset = config.presets.find((entry) => entry.id === id);
+
+  if (!preset) {
+    throw new Error(
+      `Unknown episode preset "${id}". Available presets: ${config.presets.map((entry) => entry.id).join(', ')}`
+    );
+  }
+
+  return preset;
+}
+
+/**
+ * Returns the preset scheduled for a day (weekday in the show's timezone)
+ * @param date - Day of the episode (defaults to now)
+ * @returns The weekday's preset, or the default preset when the weekday has none
+ */
+export function getScheduledPreset(date: Date = new Date()): EpisodePreset {
+  const weekday = dayjs(date)
+    .tz(loadShowConfig().timezone)
+    .format('dddd')
+    .toLowerCase();
+  return getEpisodePreset(loadPresetsConfig().weekdays[weekday]);
+}
+
+/**
+ * Describes the weekday schedule ("friday: deep-dive, other days: standard")
+ */
+export function describePresetSchedule(): string {
+  const config = loadPresetsConfig();
+  const days = WEEKDAYS.filter((day) => config.weekdays[day]).map(
+    (day) => `${day}: ${config.weekdays[day]}`
+  );
+  const fallback = getEpisodePreset().id;
+  return days.length > 0
+    ? `${days.join(', ')}, other days: ${fallback}`
+    : `every day: ${fallback}`;
+}
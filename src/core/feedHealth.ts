@@ -0,0 +1,181 @@
+import dotenv from 'dotenv';
+import {
+  FeedConfig,
+  FeedFetchResult,
+  FeedHealthCheck,
+  FeedHealthRecord,
+} from '../types/types';
+import { readJsonState, writeJsonState } from '../utils/stateStore';
+import { getPositiveIntEnv, getPositiveNumberEnv } from '../utils/utils';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Feed health tracking
+ *
+ * Every run records success/failure, item count and the age of the newest item
+ * for each fetched feed. Feeds that keep failing or have gone stale are
+ * quarantined: they are skipped until their retry time, then probed again and
+ * released on the first healthy fetch.
+ */
+
+const FEED_HEALTH_FILE = 'feedHealth.json';
+
+// Number of checks kept per feed
+const HISTORY_LENGTH = 30;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+type FeedHealthState = Record<string, FeedHealthRecord>;
+
+/**
+ * Quarantine thresholds, overridable via environment variables
+ */
+function getHealthSettings(): {
+  maxConsecutiveFailures: number;
+  staleAfterMs: number;
+  retryAfterMs: number;
+} {
+  return {
+    maxConsecutiveFailures: getPositiveIntEnv(
+      'FEED_QUARANTINE_AFTER_FAILURES',
+      3
+    ),
+    staleAfterMs: getPositiveNumberEnv('FEED_STALE_AFTER_DAYS', 14) * DAY_MS,
+    retryAfterMs:
+      getPositiveNumberEnv('FEED_QUARANTINE_RETRY_HOURS', 72) * HOUR_MS,
+  };
+}
+
+/**
+ * Returns the newest valid publication date among a feed's articles
+ */
+function getNewestItemDate(result: FeedFetchResult): string | undefined {
+  const timestamps = result.articles
+    .map((article) => new Date(article.pubDate || '').getTime())
+    .filter((time) => !isNaN(time));
+
+  return timestamps.length > 0
+    ? new Date(Math.max(...timestamps)).toISOString()
+    : undefined;
+}
+
+/**
+ * Loads the health records of all feeds
+ */
+export function loadFeedHealth(): FeedHealthState {
+  return readJsonState<FeedHealthState>(FEED_HEALTH_FILE, {});
+}
+
+/**
+ * Splits feeds into those to fetch and those still in quarantine
+ * Feeds whose quarantine retry time has passed are returned for probing.
+ * @param feeds - Enabled feeds from the registry
+ * @param now - Current time
+ * @returns Feeds to fetch and health records of the skipped feeds
+ */
+export function partitionQuarantinedFeeds(
+  feeds: FeedConfig[],
+  now: Date = new Date()
+): { active: FeedConfig[]; quarantined: FeedHealthRecord[] } {
+  const state = loadFeedHealth();
+  const active: FeedConfig[] = [];
+  const quarantined: FeedHealthRecord[] = [];
+
+  for (const feed of feeds) {
+    const record = state[feed.id];
+    const quarantine = record?.quarantine;
+
+    if (quarantine && new Date(quarantine.retryAt).getTime() > now.getTime()) {
+      quarantined.push(record);
+    } else {
+      active.push(feed);
+    }
+  }
+
+  return { active, quarantined };
+}
+
+/**
+ * Records the outcome of a run and updates quarantine status
+ * @param results - Per-feed fetch results of this run
+ * @param now - Time of the run
+ * @returns Updated health records of the fetched feeds
+ */
+export function recordFeedHealth(
+  results: FeedFetchResult[],
+  now: Date = new Date()
+): FeedHealthRecord[] {
+  const settings = getHealthSettings();
+  const state = loadFeedHealth();
+  const nowIso = now.toISOString();
+  const updated: FeedHealthRecord[] = [];
+
+  for (const result of results) {
+    const success = result.status !== 'failed';
+    const previous = state[result.feedId];
+
+    const check: FeedHealthCheck = {
+      at: nowIso,
+      success,
+      itemCount: result.articles.length,
+      newestItemAt: success ? getNewestItemDate(result) : undefined,
+      error: result.error,
+    };
+
+    const record: FeedHealthRecord = {
+      feedId: result.feedId,
+      feedName: result.feedName,
+      consecutiveFailures: success
+        ? 0
+        : (previous?.consecutiveFailures || 0) + 1,
+      lastSuccessAt: success ? nowIso : previous?.lastSuccessAt,
+      newestItemAt: check.newestItemAt || previous?.newestItemAt,
+      quarantine: previous?.quarantine,
+      history: [...(previous?.history || []), check].slice(-HISTORY_LENGTH),
+    };
+
+    // Decide whether the feed is (still) unhealthy
+    let reason: string | undefined;
+    if (record.consecutiveFailures >= settings.maxConsecutiveFailures) {
+      reason = `${record.consecutiveFailures} consecutive failures (last error: ${result.error})`;
+    } else if (success) {
+      const newest = record.newestItemAt
+        ? new Date(record.newestItemAt).getTime()
+        : NaN;
+      if (!isNaN(newest) && now.getTime() - newest > settings.staleAfterMs) {
+        const days = Math.floor((now.getTime() - newest) / DAY_MS);
+        reason = `Stale: newest item is ${days} days old`;
+      }
+    }
+
+    if (reason) {
+      record.quarantine = {
+        since: previous?.quarantine?.since || nowIso,
+        reason,
+        retryAt: new Date(now.getTime() + settings.retryAfterMs).toISOString(),
+      };
+      if (!previous?.quarantine) {
+        console.warn(`🚧 Quarantining feed ${result.feedName}: ${reason}`);
+      }
+    } else if (previous?.quarantine) {
+      console.log(
+        `✅ Feed ${result.feedName} is healthy again, releasing from quarantine`
+      );
+      record.quarantine = undefined;
+    }
+
+    state[result.feedId] = record;
+    updated.push(record);
+  }
+
+  try {
+    writeJsonState(FEED_HEALTH_FILE, state);
+  } catch (error) {
+    console.warn('⚠️ Failed to persist feed health:', error);
+  }
+
+  return updated;
+}
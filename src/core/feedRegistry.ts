@@ -0,0 +1,228 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { Article, FeedConfig, SourceType } from '../types/types';
+
+// Load environment variables
+dotenv.config();
+
+const DEFAULT_FEEDS_CONFIG_PATH = 'config/feeds.json';
+
+const SOURCE_TYPES: SourceType[] = [
+  'rss',
+  'arxiv',
+  'hackernews',
+  'github-releases',
+];
+
+// Cached registry (loaded once per process)
+let cachedRegistry: FeedConfig[] | null = null;
+
+/**
+ * Resolves the path of the feed registry file
+ * FEEDS_CONFIG_PATH can point to an alternative file (relative to the working directory)
+ */
+function getFeedsConfigPath(): string {
+  return path.resolve(
+    process.cwd(),
+    process.env.FEEDS_CONFIG_PATH || DEFAULT_FEEDS_CONFIG_PATH
+  );
+}
+
+/**
+ * Validates a single raw feed entry
+ * @param entry - Raw entry from the config file
+ * @param index - Position of the entry (for error messages)
+ * @param errors - Collected validation errors
+ * @returns The typed feed config, or null if the entry is invalid
+ */
+function validateFeedEntry(
+  entry: unknown,
+  index: number,
+  errors: string[]
+): FeedConfig | null {
+  const label = `feeds[${index}]`;
+
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    errors.push(`${label} must be an object`);
+    return null;
+  }
+
+  const raw = entry as Record<string, unknown>;
+  const startErrors = errors.length;
+
+  if (typeof raw.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(raw.id)) {
+    errors.push(`${label}.id must be a lowercase slug (a-z, 0-9, -)`);
+  }
+
+  if (
+    raw.type !== undefined &&
+    !SOURCE_TYPES.includes(raw.type as SourceType)
+  ) {
+    errors.push(`${label}.type must be one of: ${SOURCE_TYPES.join(', ')}`);
+  }
+
+  if (typeof raw.name !== 'string' || raw.name.trim().length === 0) {
+    errors.push(`${label}.name must be a non-empty string`);
+  }
+
+  if (typeof raw.url !== 'string') {
+    errors.push(`${label}.url must be a string`);
+  } else {
+    try {
+      const url = new URL(raw.url);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        errors.push(`${label}.url must use http or https`);
+      }
+    } catch {
+      errors.push(`${label}.url is not a valid URL: ${raw.url}`);
+    }
+  }
+
+  if (typeof raw.enabled !== 'boolean') {
+    errors.push(`${label}.enabled must be true or false`);
+  }
+
+  if (typeof raw.category !== 'string' || raw.category.trim().length === 0) {
+    errors.push(`${label}.category must be a non-empty string`);
+  }
+
+  if (
+    typeof raw.priority !== 'number' ||
+    !Number.isFinite(raw.priority) ||
+    raw.priority <= 0
+  ) {
+    errors.push(`${label}.priority must be a positive number`);
+  }
+
+  if (
+    typeof raw.maxItems !== 'number' ||
+    !Number.isInteger(raw.maxItems) ||
+    raw.maxItems < 1
+  ) {
+    errors.push(`${label}.maxItems must be a positive integer`);
+  }
+
+  if (errors.length > startErrors) {
+    return null;
+  }
+
+  return {
+    id: raw.id as string,
+    type: (raw.type as SourceType | undefined) || 'rss',
+    name: (raw.name as string).trim(),
+    url: raw.url as string,
+    enabled: raw.enabled as boolean,
+    category: (raw.category as string).trim(),
+    priority: raw.priority as number,
+    maxItems: raw.maxItems as number,
+  };
+}
+
+/**
+ * Validates the parsed content of the feed registry file
+ * @param data - Parsed JSON content
+ * @returns Array of validated feed configs
+ * @throws Error listing every validation problem found
+ */
+export function validateFeedRegistry(data: unknown): FeedConfig[] {
+  const errors: string[] = [];
+  const feeds: FeedConfig[] = [];
+
+  const rawFeeds =
+    data && typeof data === 'object'
+      ? (data as Record<string, unknown>).feeds
+      : undefined;
+
+  if (!Array.isArray(rawFeeds)) {
+    throw new Error('Invalid feed registry: expected a "feeds" array');
+  }
+
+  rawFeeds.forEach((entry, index) => {
+    const feed = validateFeedEntry(entry, index, errors);
+    if (feed) {
+      feeds.push(feed);
+    }
+  });
+
+  // Ids and URLs must be unique
+  const seenIds = new Set<string>();
+  const seenUrls = new Set<string>();
+  for (const feed of feeds) {
+    if (seenIds.has(feed.id)) {
+      errors.push(`Duplicate feed id: ${feed.id}`);
+    }
+    if (seenUrls.has(feed.url)) {
+      errors.push(`Duplicate feed url: ${feed.url}`);
+    }
+    seenIds.add(feed.id);
+    seenUrls.add(feed.url);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid feed registry (${errors.length} problem(s)):\n` +
+        errors.map((error) => `  - ${error}`).join('\n')
+    );
+  }
+
+  if (!feeds.some((feed) => feed.enabled)) {
+    throw new Error('Invalid feed registry: no enabled feeds configured');
+  }
+
+  return feeds;
+}
+
+/**
+ * Loads and validates the feed registry from disk
+ * @returns Array of all configured feeds (enabled and disabled)
+ */
+export function loadFeedRegistry(): FeedConfig[] {
+  if (cachedRegistry) {
+    return cachedRegistry;
+  }
+
+  const configPath = getFeedsConfigPath();
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read feed registry at ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  cachedRegistry = validateFeedRegistry(data);
+  return cachedRegistry;
+}
+
+/**
+ * Returns the feeds that should be fetched
+ */
+export function getEnabledFeeds(): FeedConfig[] {
+  return loadFeedRegistry().filter((feed) => feed.enabled);
+}
+
+/**
+ * Looks up a feed by its id
+ */
+export function getFeedById(feedId: string): FeedConfig | undefined {
+  return loadFeedRegistry().find((feed) => feed.id === feedId);
+}
+
+/**
+ * Returns the priority weight of the feed an article came from (1 if unknown)
+ */
+export function getArticlePriority(article: Article): number {
+  const feed = article.feedId ? getFeedById(article.feedId) : undefined;
+  return feed ? feed.priority : 1;
+}
+
+/**
+ * Returns the registry display name of the feed an article came from
+ */
+export function getArticleSourceName(article: Article): string {
+  const feed = article.feedId ? getFeedById(article.feedId) : undefined;
+  return feed ? feed.name : article.source;
+}
@@ -0,0 +1,180 @@
+import dotenv from 'dotenv';
+import { FeedConfig, FetchPlanOptions, FetchPlanReport } from '../types/types';
+import { getEnabledFeeds } from './feedRegistry';
+import { fetchFeeds } from './rssFetcher';
+import { recordSeenArticles } from './articleStore';
+import { applyRecencyWindow } from './recencyWindow';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Fetch planner
+ *
+ * Single entry point for collecting articles. A plan decides which sources
+ * are fetched (include/exclude lists), how many articles each may contribute
+ * (per-source quotas), applies the recency window and finally caps the total
+ * number of articles. The daily run and the test run are presets of the same
+ * plan, so fixes to fetching apply to both.
+ */
+
+export type FetchPresetName = 'daily' | 'test';
+
+export const FETCH_PRESETS: Record<FetchPresetName, FetchPlanOptions> = {
+  // Everything the registry allows, limited only by each feed's maxItems
+  daily: {
+    label: 'daily',
+    recencyWindow: true,
+  },
+  // A small, evenly spread sample for fast and cheap test runs
+  test: {
+    label: 'test',
+    totalBudget: 50,
+    recencyWindow: true,
+  },
+};
+
+/**
+ * Parses a comma-separated source list from an environment variable
+ */
+function parseSourceList(value: string | undefined): string[] | undefined {
+  const entries = (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return entries.length > 0 ? entries : undefined;
+}
+
+/**
+ * Returns true when a feed matches a source filter entry (feed id, category or type)
+ */
+function matchesSource(feed: FeedConfig, entry: string): boolean {
+  return feed.id === entry || feed.category === entry || feed.type === entry;
+}
+
+/**
+ * Applies the include/exclude lists to the enabled feeds
+ * FETCH_INCLUDE_SOURCES / FETCH_EXCLUDE_SOURCES are used when the plan sets no list.
+ */
+function selectPlannedFeeds(options: FetchPlanOptions): FeedConfig[] {
+  const feeds = getEnabledFeeds();
+  const include =
+    options.includeSources ||
+    parseSourceList(process.env.FETCH_INCLUDE_SOURCES);
+  const exclude =
+    options.excludeSources ||
+    parseSourceList(process.env.FETCH_EXCLUDE_SOURCES);
+
+  for (const entry of [...(include || []), ...(exclude || [])]) {
+    if (!feeds.some((feed) => matchesSource(feed, entry))) {
+      console.warn(
+        `⚠️ Source filter "${entry}" does not match any enabled feed id, category or type`
+      );
+    }
+  }
+
+  return feeds.filter(
+    (feed) =>
+      (!include || include.some((entry) => matchesSource(feed, entry))) &&
+      !(exclude || []).some((entry) => matchesSource(feed, entry))
+  );
+}
+
+/**
+ * Computes the article cap of each planned feed
+ * Without an explicit per-source quota, a total budget is spread evenly over the feeds.
+ */
+function computeQuotas(
+  feeds: FeedConfig[],
+  options: FetchPlanOptions
+): Record<string, number> {
+  const defaultQuota =
+    options.perSourceQuota ??
+    (options.totalBudget && feeds.length > 0
+      ? Math.ceil(options.totalBudget / feeds.length)
+      : undefined);
+
+  const quotas: Record<string, number> = {};
+  for (const feed of feeds) {
+    const quota = options.sourceQuotas?.[feed.id] ?? defaultQuota;
+    if (quota !== undefined) {
+      quotas[feed.id] = quota;
+    }
+  }
+  return quotas;
+}
+
+/**
+ * Fetches articles according to a plan
+ * @param options - Plan options, usually a preset from FETCH_PRESETS plus run-specific values
+ * @returns Planned articles (newest first) and a structured fetch report
+ */
+export async function fetchArticles(
+  options: FetchPlanOptions = FETCH_PRESETS.daily
+): Promise<FetchPlanReport> {
+  const label = options.label || 'custom';
+  const feeds = selectPlannedFeeds(options);
+
+  if (feeds.length === 0) {
+    throw new Error(
+      `Fetch plan "${label}" selects no sources. Check the include/exclude source lists.`
+    );
+  }
+
+  const quotas = computeQuotas(feeds, options);
+
+  console.log(`🚀 Starting feed fetch (${label} plan)...`);
+  console.log(`📋 Total feeds to fetch: ${feeds.length}`);
+  if (options.totalBudget) {
+    console.log(`🔢 Max total articles: ${options.totalBudget}`);
+  }
+  console.log('');
+
+  try {
+    const report = await fetchFeeds(feeds, quotas);
+    const fetchedCount = report.articles.length;
+
+    // Record first-seen times before the recency window dates undated articles by them
+    const firstSeen = recordSeenArticles(report.articles);
+
+    let articles = report.articles;
+    let recency: FetchPlanReport['recency'];
+
+    if (options.recencyWindow !== false) {
+      const windowResult = applyRecencyWindow(
+        articles,
+        firstSeen,
+        options.episodeId
+      );
+      articles = windowResult.articles;
+      recency = {
+        cutoff: windowResult.cutoff,
+        droppedOld: windowResult.droppedOld,
+        droppedUndated: windowResult.droppedUndated,
+      };
+    }
+
+    // Articles are sorted newest first, so the budget keeps the most recent ones
+    let droppedOverBudget = 0;
+    if (options.totalBudget && articles.length > options.totalBudget) {
+      droppedOverBudget = articles.length - options.totalBudget;
+      articles = articles.slice(0, options.totalBudget);
+    }
+
+    console.log(
+      `\n🎉 Fetched ${fetchedCount} articles from ${feeds.length} feeds, ${articles.length} planned for selection (${label} plan)`
+    );
+
+    return {
+      ...report,
+      articles,
+      plannedFeeds: feeds.map((feed) => feed.id),
+      fetchedCount,
+      recency,
+      droppedOverBudget,
+    };
+  } catch (error) {
+    console.error('💥 Error fetching feeds:', error);
+    throw error;
+  }
+}
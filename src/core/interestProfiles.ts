@@ -0,0 +1,209 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { InterestProfile } from '../types/types';
+import { getFeedById, loadFeedRegistry } from './feedRegistry';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Audience interest profiles
+ *
+ * A profile describes who an episode is for: topics to boost and exclude,
+ * preferred sources and a tone note. Profiles are loaded from
+ * config/profiles.json and drive the AI filtering prompt, the selection
+ * prompt, the keyword fallback and the script tone, so different groups can
+ * get differently curated episodes from the same fetched articles.
+ * INTEREST_PROFILE selects the profile used when a run does not name one.
+ */
+
+const DEFAULT_PROFILES_CONFIG_PATH = 'config/profiles.json';
+
+type ProfilesConfig = {
+  defaultProfile: string;
+  profiles: InterestProfile[];
+};
+
+// Cached config (loaded once per process)
+let cachedConfig: ProfilesConfig | null = null;
+
+/**
+ * Returns true for arrays of non-empty strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((entry) => typeof entry === 'string' && entry.trim().length > 0)
+  );
+}
+
+/**
+ * Validates the parsed content of the profiles config file
+ * @param data - Parsed JSON content
+ * @returns Validated profiles config
+ * @throws Error listing every validation problem found
+ */
+export function validateProfilesConfig(data: unknown): ProfilesConfig {
+  const errors: string[] = [];
+  const raw =
+    data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+
+  if (!Array.isArray(raw.profiles) || raw.profiles.length === 0) {
+    throw new Error(
+      'Invalid profiles config: expected a non-empty "profiles" array'
+    );
+  }
+
+  const seenIds = new Set<string>();
+  const profiles: InterestProfile[] = [];
+
+  raw.profiles.forEach((entry: Record<string, unknown>, index) => {
+    const label = `profiles[${index}]`;
+    const startErrors = errors.length;
+
+    if (
+      typeof entry?.id !== 'string' ||
+      !/^[a-z0-9][a-z0-9-]*$/.test(entry.id)
+    ) {
+      errors.push(`${label}.id must be a lowercase slug (a-z, 0-9, -)`);
+    } else if (seenIds.has(entry.id)) {
+      errors.push(`Duplicate profile id: ${entry.id}`);
+    }
+
+    for (const field of ['name', 'audience', 'tone']) {
+      if (
+        typeof entry?.[field] !== 'string' ||
+        !(entry[field] as string).trim()
+      ) {
+        errors.push(`${label}.${field} must be a non-empty string`);
+      }
+    }
+
+    for (const field of [
+      'boostTopics',
+      'excludeTopics',
+      'boostKeywords',
+      'excludeKeywords',
+      'preferredSources',
+    ]) {
+      if (entry?.[field] !== undefined && !isStringArray(entry[field])) {
+        errors.push(`${label}.${field} must be an array of strings`);
+      }
+    }
+
+    if (isStringArray(entry?.preferredSources)) {
+      for (const feedId of entry.preferredSources) {
+        if (!getFeedById(feedId)) {
+          errors.push(`${label}.preferredSources: unknown feed id "${feedId}"`);
+        }
+      }
+    }
+
+    if (errors.length > startErrors) {
+      return;
+    }
+
+    seenIds.add(entry.id as string);
+    profiles.push({
+      id: entry.id as string,
+      name: (entry.name as string).trim(),
+      audience: (entry.audience as string).trim(),
+      boostTopics: (entry.boostTopics as string[] | undefined) || [],
+      excludeTopics: (entry.excludeTopics as string[] | undefined) || [],
+      boostKeywords: (entry.boostKeywords as string[] | undefined) || [],
+      excludeKeywords: (entry.excludeKeywords as string[] | undefined) || [],
+      preferredSources: (entry.preferredSources as string[] | undefined) || [],
+      tone: (entry.tone as string).trim(),
+    });
+  });
+
+  const defaultProfile =
+    typeof raw.defaultProfile === 'string' ? raw.defaultProfile : '';
+  if (errors.length === 0 && !seenIds.has(defaultProfile)) {
+    errors.push(
+      `defaultProfile must be one of: ${Array.from(seenIds).join(', ')}`
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid profiles config (${errors.length} problem(s)):\n` +
+        errors.map((error) => `  - ${error}`).join('\n')
+    );
+  }
+
+  return { defaultProfile, profiles };
+}
+
+/**
+ * Loads and validates the profiles config
+ * PROFILES_CONFIG_PATH can point to an alternative file (relative to the working directory)
+ */
+export function loadProfilesConfig(): ProfilesConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = path.resolve(
+    process.cwd(),
+    process.env.PROFILES_CONFIG_PATH || DEFAULT_PROFILES_CONFIG_PATH
+  );
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read profiles config at ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  // Preferred sources are checked against the feed registry
+  loadFeedRegistry();
+  cachedConfig = validateProfilesConfig(data);
+  return cachedConfig;
+}
+
+/**
+ * Returns an interest profile by id
+ * @param profileId - Profile id; defaults to INTEREST_PROFILE, then the config's defaultProfile
+ * @throws Error when the profile does not exist
+ */
+export function getInterestProfile(profileId?: string): InterestProfile {
+  const config = loadProfilesConfig();
+  const id = profileId || process.env.INTEREST_PROFILE || config.defaultProfile;
+  const profile = config.profiles.find((entry) => entry.id === id);
+
+  if (!profile) {
+    throw new Error(
+      `Unknown interest profile "${id}". Available profiles: ${config.profiles.map((entry) => entry.id).join(', ')}`
+    );
+  }
+
+  return profile;
+}
+
+/**
+ * Formats a profile as prompt instructions for the filtering and selection prompts
+ */
+export function describeProfileForPrompt(profile: InterestProfile): string {
+  const lines = [`AUDIENCE: ${profile.audience}`];
+
+  if (profile.boostTopics.length > 0) {
+    lines.push(`- Prioritize: ${profile.boostTopics.join('; ')}`);
+  }
+  if (profile.excludeTopics.length > 0) {
+    lines.push(`- Exclude: ${profile.excludeTopics.join('; ')}`);
+  }
+  if (profile.preferredSources.length > 0) {
+    const names = profile.preferredSources.map(
+      (feedId) => getFeedById(feedId)?.name || feedId
+    );
+    lines.push(
+      `- Preferred sources when stories are comparable: ${names.join(', ')}`
+    );
+  }
+
+  return lines.join('\n');
+}
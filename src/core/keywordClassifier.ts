@@ -0,0 +1,252 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { Article, InterestProfile } from '../types/types';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Offline keyword relevance classifier
+ *
+ * Decides whether an article is AI-related without calling an LLM; used when
+ * no LLM provider is configured or the LLM filter fails. Texts and keywords are
+ * split into words, so "ai" no longer matches "said" and "ml" no longer
+ * matches "html"; multi-word keywords match as consecutive words. Every
+ * matched keyword adds its weight (multiplied for matches in the title) and
+ * articles at or above the threshold pass, unless they contain a negative
+ * keyword. Keywords, weights and the blocklist live in config/keywords.json.
+ */
+
+const DEFAULT_KEYWORDS_CONFIG_PATH = 'config/keywords.json';
+
+export type KeywordClassifierConfig = {
+  threshold: number; // Minimum score for an article to count as relevant
+  titleMultiplier: number; // Applied to the weight of keywords found in the title
+  keywords: Record<string, number>; // Keyword or phrase -> weight
+  negativeKeywords: string[]; // Any match rejects the article
+};
+
+export type KeywordClassification = {
+  relevant: boolean;
+  score: number;
+  matchedTerms: string[]; // Matched keywords, highest contribution first
+  blockedBy: string[]; // Matched negative keywords
+};
+
+// Cached config (loaded once per process)
+let cachedConfig: KeywordClassifierConfig | null = null;
+
+/**
+ * Splits text into lowercase words ("GPT-4o's" -> ["gpt", "4o", "s"])
+ */
+function splitWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Validates the parsed content of the keywords config file
+ * @param data - Parsed JSON content
+ * @returns Validated classifier config
+ * @throws Error listing every validation problem found
+ */
+export function validateKeywordConfig(data: unknown): KeywordClassifierConfig {
+  const errors: string[] = [];
+  const raw =
+    data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+
+  for (const field of ['threshold', 'titleMultiplier']) {
+    const value = raw[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      errors.push(`${field} must be a positive number`);
+    }
+  }
+
+  const keywords =
+    raw.keywords && typeof raw.keywords === 'object'
+      ? (raw.keywords as Record<string, unknown>)
+      : {};
+  if (Object.keys(keywords).length === 0) {
+    errors.push('keywords must be a non-empty object of keyword -> weight');
+  }
+  for (const [keyword, weight] of Object.entries(keywords)) {
+    if (splitWords(keyword).length === 0) {
+      errors.push(`keywords."${keyword}" contains no words`);
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+      errors.push(`keywords."${keyword}" must have a positive weight`);
+    }
+  }
+
+  const negativeKeywords = raw.negativeKeywords ?? [];
+  if (
+    !Array.isArray(negativeKeywords) ||
+    !negativeKeywords.every(
+      (keyword) => typeof keyword === 'string' && splitWords(keyword).length > 0
+    )
+  ) {
+    errors.push('negativeKeywords must be an array of non-empty strings');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid keywords config (${errors.length} problem(s)):\n` +
+        errors.map((error) => `  - ${error}`).join('\n')
+    );
+  }
+
+  return {
+    threshold: raw.threshold as number,
+    titleMultiplier: raw.titleMultiplier as number,
+    keywords: keywords as Record<string, number>,
+    negativeKeywords: negativeKeywords as string[],
+  };
+}
+
+/**
+ * Loads and validates the keywords config
+ * KEYWORDS_CONFIG_PATH can point to an alternative file (relative to the working directory)
+ */
+export function loadKeywordConfig(): KeywordClassifierConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = path.resolve(
+    process.cwd(),
+    process.env.KEYWORDS_CONFIG_PATH || DEFAULT_KEYWORDS_CONFIG_PATH
+  );
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read keywords config at ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  cachedConfig = validateKeywordConfig(data);
+  return cachedConfig;
+}
+
+/**
+ * Returns true when the phrase occurs as consecutive words
+ * The last word may carry a plural "s" ("llm" matches "LLMs").
+ */
+function containsPhrase(words: string[], phrase: string[]): boolean {
+  const last = phrase.length - 1;
+
+  for (let start = 0; start + phrase.length <= words.length; start++) {
+    const matches = phrase.every((word, offset) => {
+      const candidate = words[start + offset];
+      return (
+        candidate === word || (offset === last && candidate === `${word}s`)
+      );
+    });
+    if (matches) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Classifies one article
+ * @param article - Article to classify (title and summary are used)
+ * @param profile - Optional interest profile; its boost keywords count with the
+ *   threshold weight and its exclude keywords are added to the blocklist
+ * @returns Relevance, score and the terms that produced it
+ */
+export function classifyArticle(
+  article: Article,
+  profile?: InterestProfile
+): KeywordClassification {
+  const config = loadKeywordConfig();
+  const titleWords = splitWords(article.title);
+  const bodyWords = splitWords(article.summary);
+
+  const keywords: Record<string, number> = { ...config.keywords };
+  for (const keyword of profile?.boostKeywords || []) {
+    keywords[keyword.toLowerCase()] = Math.max(
+      keywords[keyword.toLowerCase()] || 0,
+      config.threshold
+    );
+  }
+  const negativeKeywords = [
+    ...config.negativeKeywords,
+    ...(profile?.excludeKeywords || []),
+  ];
+
+  const contributions: { term: string; points: number }[] = [];
+  for (const [keyword, weight] of Object.entries(keywords)) {
+    const phrase = splitWords(keyword);
+    if (containsPhrase(titleWords, phrase)) {
+      contributions.push({
+        term: keyword,
+        points: weight * config.titleMultiplier,
+      });
+    } else if (containsPhrase(bodyWords, phrase)) {
+      contributions.push({ term: keyword, points: weight });
+    }
+  }
+
+  const blockedBy = negativeKeywords.filter((keyword) => {
+    const phrase = splitWords(keyword);
+    return (
+      phrase.length > 0 &&
+      (containsPhrase(titleWords, phrase) || containsPhrase(bodyWords, phrase))
+    );
+  });
+
+  const score = contributions.reduce((sum, entry) => sum + entry.points, 0);
+
+  return {
+    relevant: blockedBy.length === 0 && score >= config.threshold,
+    score,
+    matchedTerms: contributions
+      .sort((a, b) => b.points - a.points)
+      .map((entry) => entry.term),
+    blockedBy,
+  };
+}
+
+/**
+ * Keeps the articles the keyword classifier considers relevant
+ * @param articles - Articles to filter
+ * @param profile - Interest profile whose keywords extend the config
+ * @returns Relevant articles, in their original order
+ */
+export function filterArticlesByKeywords(
+  articles: Article[],
+  profile?: InterestProfile
+): Article[] {
+  const relevant = articles.filter((article) => {
+    const result = classifyArticle(article, profile);
+    const terms =
+      result.matchedTerms.length > 0 ? result.matchedTerms.join(', ') : 'none';
+
+    if (result.relevant) {
+      console.log(
+        `   ✅ ${result.score.toFixed(1)} ${article.title} [${terms}]`
+      );
+    } else if (result.blockedBy.length > 0) {
+      console.log(
+        `   🚫 ${article.title} [blocked by: ${result.blockedBy.join(', ')}]`
+      );
+    } else {
+      console.log(
+        `   ➖ ${result.score.toFixed(1)} ${article.title} [${terms}]`
+      );
+    }
+    return result.relevant;
+  });
+
+  console.log(
+    `🔤 Keyword classifier kept ${relevant.length}/${articles.length} articles (threshold ${loadKeywordConfig().threshold})`
+  );
+  return relevant;
+}
@@ -0,0 +1,133 @@
+import dotenv from 'dotenv';
+import { Article } from '../types/types';
+import { loadArticleStore } from './articleStore';
+import { getPositiveNumberEnv } from '../utils/utils';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Recency window applied to fetched articles before AI filtering
+ *
+ * The window starts shortly before the previous episode (so nothing published
+ * between two runs is lost) and falls back to a fixed number of hours when
+ * there is no previous episode. Undated articles are handled according to
+ * UNDATED_ARTICLES:
+ * - "first-seen" (default): dated by when the article store first saw them
+ * - "drop": removed
+ * - "keep": always kept
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type UndatedPolicy = 'first-seen' | 'drop' | 'keep';
+
+export type RecencyWindowResult = {
+  articles: Article[];
+  cutoff: string; // ISO timestamp; older articles were dropped
+  droppedOld: number;
+  droppedUndated: number;
+};
+
+/**
+ * Returns the configured policy for articles without a publication date
+ */
+function getUndatedPolicy(): UndatedPolicy {
+  const value = process.env.UNDATED_ARTICLES || 'first-seen';
+  if (value === 'first-seen' || value === 'drop' || value === 'keep') {
+    return value;
+  }
+  console.warn(
+    `⚠️ Unknown UNDATED_ARTICLES value "${value}", using "first-seen"`
+  );
+  return 'first-seen';
+}
+
+/**
+ * Computes the start of the recency window
+ * @param now - Current time
+ * @param currentEpisodeId - Episode being generated (ignored when looking for the previous one)
+ * @returns Cutoff time; articles published before it are dropped
+ */
+export function getRecencyCutoff(
+  now: Date = new Date(),
+  currentEpisodeId?: string
+): Date {
+  const windowHours = getPositiveNumberEnv('RECENCY_WINDOW_HOURS', 36);
+  const overlapHours = getPositiveNumberEnv('RECENCY_OVERLAP_HOURS', 12);
+  const maxLookbackHours = getPositiveNumberEnv(
+    'RECENCY_MAX_LOOKBACK_HOURS',
+    96
+  );
+
+  const previousEpisode = loadArticleStore()
+    .episodes.filter((episode) => episode.episodeId !== currentEpisodeId)
+    .pop();
+
+  if (!previousEpisode) {
+    return new Date(now.getTime() - windowHours * HOUR_MS);
+  }
+
+  // Anchor on the previous episode, but never look back further than the max
+  const anchored =
+    new Date(previousEpisode.at).getTime() - overlapHours * HOUR_MS;
+  const earliest = now.getTime() - maxLookbackHours * HOUR_MS;
+
+  return new Date(Math.max(anchored, earliest));
+}
+
+/**
+ * Keeps only articles published inside the recency window
+ * @param articles - Fetched articles
+ * @param firstSeen - Map of article id to first-seen time (from the article store)
+ * @param currentEpisodeId - Episode being generated
+ * @param now - Current time
+ * @returns Articles inside the window and drop statistics
+ */
+export function applyRecencyWindow(
+  articles: Article[],
+  firstSeen: Map<string, string>,
+  currentEpisodeId?: string,
+  now: Date = new Date()
+): RecencyWindowResult {
+  const cutoff = getRecencyCutoff(now, currentEpisodeId);
+  const policy = getUndatedPolicy();
+  const kept: Article[] = [];
+  let droppedOld = 0;
+  let droppedUndated = 0;
+
+  for (const article of articles) {
+    let publishedAt = article.pubDate;
+
+    if (!publishedAt) {
+      if (policy === 'drop') {
+        droppedUndated++;
+        continue;
+      }
+      if (policy === 'keep') {
+        kept.push(article);
+        continue;
+      }
+      publishedAt = firstSeen.get(article.id) || now.toISOString();
+    }
+
+    if (new Date(publishedAt).getTime() < cutoff.getTime()) {
+      droppedOld++;
+      continue;
+    }
+
+    kept.push(article);
+  }
+
+  console.log(
+    `🕒 Recency window since ${cutoff.toISOString()}: kept ${kept.length}/${articles.length} articles` +
+      ` (${droppedOld} too old, ${droppedUndated} undated dropped)`
+  );
+
+  return {
+    articles: kept,
+    cutoff: cutoff.toISOString(),
+    droppedOld,
+    droppedUndated,
+  };
+}
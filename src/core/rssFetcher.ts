@@ -1,243 +1,194 @@
-import Parser from 'rss-parser';
-import striptags from 'striptags';
-import crypto from 'crypto';
-import { Article } from '../types/types';
-
-// RSS Parser instance
-const parser = new Parser();
-
-// Hard-coded array of AI/tech RSS feed URLs
-const RSS_FEEDS = [
-  'https://openai.com/blog/rss.xml',
-  'https://techcrunch.com/category/artificial-intelligence/feed/',
-  'https://www.marktechpost.com/feed/',
-  'https://www.kdnuggets.com/feed',
-  'https://www.ft.com/artificial-intelligence?format=rss',
-  'https://news.mit.edu/topic/mitartificial-intelligence2-rss.xml',
-  'https://thegradient.pub/rss/',
-  'https://www.analyticsvidhya.com/blog/category/artificial-intelligence/feed/',
-  'https://www.artificialintelligence-news.com/feed/',
-  'https://rss.nytimes.com/services/xml/rss/nyt/Technology.xml',
-  'https://research.google/blog/rss',
-  'https://dailyai.com/feed',
-];
+import { Article, FeedConfig, FeedFetchResult, FeedFetchReport, SourceType } from '../types/types';
+import { partitionQuarantinedFeeds, recordFeedHealth } from './feedHealth';
+import { readJsonState, writeJsonState } from '../utils/stateStore';
+import { fetchTextWithRetry, HttpError, RequestFailedError } from '../utils/http';
+import { mapWithConcurrency, getPositiveIntEnv } from '../utils/utils';
+import { SourceAdapter } from './sourceAdapter';
+import { rssAdapter } from './adapters/rssAdapter';
+import { arxivAdapter } from './adapters/arxivAdapter';
+import { hackerNewsAdapter } from './adapters/hackerNewsAdapter';
+import { githubReleasesAdapter } from './adapters/githubReleasesAdapter';
+
+// Adapter used for each source type of the registry
+const SOURCE_ADAPTERS: Record<SourceType, SourceAdapter> = {
+  rss: rssAdapter,
+  arxiv: arxivAdapter,
+  hackernews: hackerNewsAdapter,
+  'github-releases': githubReleasesAdapter,
+};
+
+// User agent sent with every feed request
+const USER_AGENT = 'daily-ai-news/1.0 (+https://github.com/Vicking28/daily_ai_news)';
+
+// Maximum number of feeds fetched at the same time
+const FEED_CONCURRENCY = getPositiveIntEnv('FEED_CONCURRENCY', 4);
+
+// State file holding HTTP validators and the last parsed items of each feed
+const FEED_CACHE_FILE = 'feedCache.json';
 
 /**
- * Generates a stable deterministic ID for an article
- * @param link - Article link
- * @param title - Article title
- * @param source - Article source
- * @returns 16-character hex ID
+ * Cached state of a feed from the previous run
  */
-function generateArticleId(link: string, title: string, source: string): string {
-  // Prefer hashing the link if available
-  if (link && link.trim()) {
-    return crypto.createHash('sha1').update(link).digest('hex').slice(0, 16);
-  }
-  
-  // Fallback to hashing title + source
-  const fallback = `${title}${source}`;
-  return crypto.createHash('sha1').update(fallback).digest('hex').slice(0, 16);
-}
+type FeedCacheEntry = {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: string;
+  articles: Article[];
+};
+
+type FeedCache = Record<string, FeedCacheEntry>;
 
 /**
- * Extracts the source name from a feed URL
- * @param feedUrl - The RSS feed URL
- * @returns A clean source name
+ * Fetches a single source with a conditional GET and returns normalized articles
+ * The source's adapter provides request headers and parses the payload.
+ * Sends If-None-Match/If-Modified-Since from the previous run and reuses the
+ * cached items when the server answers 304 Not Modified. Requests time out and
+ * are retried according to the FETCH_* settings (see utils/http.ts).
+ * @param feed - The registry entry to fetch
+ * @param cache - Feed cache loaded from the state file (updated in place)
+ * @param maxItems - Optional cap below the feed's own maxItems
+ * @returns Fetch result with status, normalized articles, attempts and latency
  */
-function extractSourceName(feedUrl: string): string {
+async function fetchFeed(
+  feed: FeedConfig,
+  cache: FeedCache,
+  maxItems: number = feed.maxItems
+): Promise<FeedFetchResult> {
+  const limit = Math.min(maxItems, feed.maxItems);
+  const cached = cache[feed.id];
+  const startedAt = Date.now();
+  let attempts = 0;
+
   try {
-    const url = new URL(feedUrl);
-    const hostname = url.hostname;
-
-    // Clean up common hostname patterns
-    return hostname
-      .replace('www.', '')
-      .replace('.com', '')
-      .replace('.org', '')
-      .replace('.edu', '')
-      .replace('.co.uk', '')
-      .replace('news.', '')
-      .replace('blog.', '')
-      .replace('research.', '');
-  } catch {
-    return 'unknown-source';
+    console.log(`📡 Fetching feed: ${feed.url}`);
+
+    const adapter = SOURCE_ADAPTERS[feed.type];
+    const headers: Record<string, string> = {
+      'User-Agent': USER_AGENT,
+      ...adapter.getHeaders(feed),
+    };
+
+    // Only send validators when we still have the items they refer to
+    if (cached && cached.url === feed.url) {
+      if (cached.etag) {
+        headers['If-None-Match'] = cached.etag;
+      }
+      if (cached.lastModified) {
+        headers['If-Modified-Since'] = cached.lastModified;
+      }
+    }
+
+    const response = await fetchTextWithRetry(feed.url, headers);
+    attempts = response.attempts;
+
+    const batch = {
+      feedId: feed.id,
+      feedName: feed.name,
+      attempts: response.attempts,
+      latencyMs: response.latencyMs,
+    };
+
+    if (response.status === 304 && cached) {
+      const articles = cached.articles.slice(0, limit);
+      console.log(`♻️ ${feed.name} not modified, reusing ${articles.length} cached articles`);
+      return { ...batch, status: 'not-modified', articles };
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new HttpError(response.status, `HTTP ${response.status}`);
+    }
+
+    const allArticles = await adapter.parse(response.body, feed);
+
+    cache[feed.id] = {
+      url: feed.url,
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined,
+      fetchedAt: new Date().toISOString(),
+      articles: allArticles,
+    };
+
+    const articles = allArticles.slice(0, limit);
+    console.log(`✅ Fetched ${articles.length} articles from ${feed.name} (${response.latencyMs}ms, ${response.attempts} attempt(s))`);
+    return { ...batch, status: 'fetched', articles };
+  } catch (error) {
+    console.error(`❌ Failed to fetch feed ${feed.url}:`, error instanceof Error ? error.message : error);
+    return {
+      feedId: feed.id,
+      feedName: feed.name,
+      status: 'failed',
+      articles: [],
+      attempts: error instanceof RequestFailedError ? error.attempts : Math.max(attempts, 1),
+      latencyMs: error instanceof RequestFailedError ? error.latencyMs : Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
   }
 }
 
 /**
- * Cleans HTML content and converts to plain text
- * @param htmlContent - Raw HTML content
- * @returns Clean plain text
+ * Fetches the given feeds (at most FEED_CONCURRENCY at a time) and builds a fetch report
+ * Quarantined feeds are skipped and every fetched feed's health is recorded.
+ * Callers decide which feeds to fetch and how many articles to keep; see fetchPlanner.ts.
+ * @param feeds - Feeds to fetch
+ * @param quotas - Optional per-feed-id article caps (the feed's maxItems always applies)
+ * @returns Combined articles (newest first), per-feed results and skipped feeds
  */
-function cleanHtmlContent(htmlContent: string): string {
-  if (!htmlContent) return '';
-
-  // Strip HTML tags
-  let cleanText = striptags(htmlContent);
-
-  // Decode common HTML entities
-  cleanText = cleanText
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&hellip;/g, '...')
-    .replace(/&mdash;/g, '—')
-    .replace(/&ndash;/g, '–');
-
-  // Clean up whitespace
-  cleanText = cleanText.replace(/\s+/g, ' ').trim();
-
-  // Limit length to reasonable size
-  if (cleanText.length > 500) {
-    cleanText = cleanText.substring(0, 500) + '...';
+export async function fetchFeeds(
+  feeds: FeedConfig[],
+  quotas: Record<string, number> = {}
+): Promise<FeedFetchReport> {
+  const cache = readJsonState<FeedCache>(FEED_CACHE_FILE, {});
+  const { active, quarantined } = partitionQuarantinedFeeds(feeds);
+
+  if (quarantined.length > 0) {
+    console.log(`🚧 Skipping ${quarantined.length} quarantined feed(s): ${quarantined.map((record) => record.feedName).join(', ')}`);
   }
 
-  return cleanText;
-}
+  const results = await mapWithConcurrency(active, FEED_CONCURRENCY, (feed) =>
+    fetchFeed(feed, cache, quotas[feed.id])
+  );
 
-/**
- * Fetches a single RSS feed and returns normalized articles
- * @param feedUrl - The RSS feed URL to fetch
- * @returns Array of normalized articles
- */
-async function fetchFeed(feedUrl: string): Promise<Article[]> {
   try {
-    console.log(`📡 Fetching feed: ${feedUrl}`);
-    const feed = await parser.parseURL(feedUrl);
-    const sourceName = extractSourceName(feedUrl);
-
-    const articles: Article[] = feed.items.map((item) => {
-      const title = item.title || 'Untitled';
-      const link = item.link || '';
-      const source = sourceName;
-      
-      return {
-        id: generateArticleId(link, title, source),
-        source,
-        title,
-        link,
-        pubDate: item.pubDate || item.isoDate || new Date().toISOString(),
-        summary: cleanHtmlContent(
-          item.contentSnippet || item.content || item.description || ''
-        ),
-      };
-    });
-
-    console.log(`✅ Fetched ${articles.length} articles from ${sourceName}`);
-    return articles;
+    writeJsonState(FEED_CACHE_FILE, cache);
   } catch (error) {
-    console.error(`❌ Failed to fetch feed ${feedUrl}:`, error);
-    return [];
+    console.warn('⚠️ Failed to persist feed cache:', error);
   }
-}
 
-/**
- * Fetches all RSS feeds in parallel and returns combined articles
- * @returns Array of all normalized articles from all feeds
- */
-export async function fetchAllFeeds(): Promise<Article[]> {
-  console.log('🚀 Starting RSS feed fetch for all sources...');
-  console.log(`📋 Total feeds to fetch: ${RSS_FEEDS.length}\n`);
+  // Flatten all articles into a single array
+  const articles = results.flatMap((result) => result.articles);
 
-  try {
-    // Fetch all feeds in parallel
-    const feedPromises = RSS_FEEDS.map((feedUrl) => fetchFeed(feedUrl));
-    const feedResults = await Promise.all(feedPromises);
-
-    // Flatten all articles into a single array
-    const allArticles = feedResults.flat();
+  // Sort by publication date (newest first)
+  articles.sort(
+    (a, b) => new Date(b.pubDate || 0).getTime() - new Date(a.pubDate || 0).getTime()
+  );
 
-    // Sort by publication date (newest first)
-    allArticles.sort(
-      (a, b) => new Date(b.pubDate || 0).getTime() - new Date(a.pubDate || 0).getTime()
-    );
+  logFetchSummary(results);
 
-    console.log(
-      `\n🎉 Successfully fetched ${allArticles.length} total articles from ${RSS_FEEDS.length} feeds`
-    );
+  // Update health records; feeds quarantined during this run are reported too
+  const health = recordFeedHealth(results);
+  const newlyQuarantined = health.filter((record) => record.quarantine);
 
-    return allArticles;
-  } catch (error) {
-    console.error('💥 Error fetching RSS feeds:', error);
-    throw error;
-  }
+  return { articles, results, quarantined: [...quarantined, ...newlyQuarantined] };
 }
 
 /**
- * Fetches RSS feeds with a limit on total articles (for testing)
- * @param maxTotalArticles - Maximum total articles to fetch across all feeds
- * @returns Array of limited normalized articles from all feeds
+ * Prints a per-run summary of fetched, unchanged and failed feeds
  */
-export async function fetchAllFeedsLimited(maxTotalArticles: number = 50): Promise<Article[]> {
-  console.log('🚀 Starting LIMITED RSS feed fetch for testing...');
-  console.log(`📋 Total feeds to fetch: ${RSS_FEEDS.length}`);
-  console.log(`🔢 Max total articles: ${maxTotalArticles}\n`);
-
-  try {
-    // Calculate articles per feed (distribute evenly)
-    const articlesPerFeed = Math.ceil(maxTotalArticles / RSS_FEEDS.length);
-    console.log(`📊 Articles per feed: ~${articlesPerFeed}\n`);
-
-    // Fetch all feeds in parallel with individual limits
-    const feedPromises = RSS_FEEDS.map(async (feedUrl) => {
-      try {
-        console.log(`📡 Fetching feed: ${feedUrl}`);
-        const feed = await parser.parseURL(feedUrl);
-        const sourceName = extractSourceName(feedUrl);
-
-        // Limit articles from this feed
-        const limitedItems = feed.items.slice(0, articlesPerFeed);
-
-        const articles: Article[] = limitedItems.map((item) => {
-          const title = item.title || 'Untitled';
-          const link = item.link || '';
-          const source = sourceName;
-          
-          return {
-            id: generateArticleId(link, title, source),
-            source,
-            title,
-            link,
-            pubDate: item.pubDate || item.isoDate || new Date().toISOString(),
-            summary: cleanHtmlContent(
-              item.contentSnippet || item.content || item.description || ''
-            ),
-          };
-        });
-
-        console.log(`✅ Fetched ${articles.length} articles from ${sourceName}`);
-        return articles;
-      } catch (error) {
-        console.error(`❌ Failed to fetch feed ${feedUrl}:`, error);
-        return [];
-      }
-    });
-
-    const feedResults = await Promise.all(feedPromises);
-
-    // Flatten all articles into a single array
-    const allArticles = feedResults.flat();
+function logFetchSummary(results: FeedFetchResult[]): void {
+  const byStatus = (status: FeedFetchResult['status']): string[] =>
+    results.filter((result) => result.status === status).map((result) => result.feedName);
 
-    // Sort by publication date (newest first)
-    allArticles.sort(
-      (a, b) => new Date(b.pubDate || 0).getTime() - new Date(a.pubDate || 0).getTime()
-    );
+  const fetched = byStatus('fetched');
+  const unchanged = byStatus('not-modified');
+  const failed = byStatus('failed');
 
-    // Final limit to ensure we don't exceed the max
-    const finalArticles = allArticles.slice(0, maxTotalArticles);
+  console.log('\n📋 Feed fetch summary:');
+  console.log(`   - Fetched: ${fetched.length}${fetched.length ? ` (${fetched.join(', ')})` : ''}`);
+  console.log(`   - Unchanged (304): ${unchanged.length}${unchanged.length ? ` (${unchanged.join(', ')})` : ''}`);
+  console.log(`   - Failed: ${failed.length}${failed.length ? ` (${failed.join(', ')})` : ''}`);
 
-    console.log(
-      `\n🎉 Successfully fetched ${finalArticles.length} total articles from ${RSS_FEEDS.length} feeds (LIMITED)`
-    );
-
-    return finalArticles;
-  } catch (error) {
-    console.error('💥 Error fetching RSS feeds:', error);
-    throw error;
+  for (const result of results.filter((result) => result.status === 'failed')) {
+    console.log(`     ✗ ${result.feedName}: ${result.error} (${result.attempts} attempt(s), ${result.latencyMs}ms)`);
   }
 }
-
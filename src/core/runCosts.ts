@@ -0,0 +1,454 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { LlmRequest, LlmResponse } from '../ai/llmProvider';
+import { appendJsonLines, readJsonLines } from '../utils/stateStore';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Run cost accounting
+ *
+ * Every LLM call (prompt and completion tokens) and TTS call (characters) is
+ * priced from the rate table in config/pricing.json and added up per run and
+ * per stage (AI filter, article selection, podcast script, text-to-speech).
+ * A run stops with a BudgetExceededError as soon as its cost passes
+ * maxCostPerRun or what is left of maxCostPerDay, so a rerun from Discord
+ * cannot silently double the daily spend. Finished runs are appended to
+ * runCosts.jsonl in the state directory.
+ */
+
+const DEFAULT_PRICING_CONFIG_PATH = 'config/pricing.json';
+const RUN_COSTS_FILE = 'runCosts.jsonl';
+
+// Rough token estimate for providers that do not report usage
+const CHARS_PER_TOKEN = 4;
+
+export type LlmRate = {
+  promptPerMillion: number; // Price per 1M prompt tokens
+  completionPerMillion: number; // Price per 1M completion tokens
+};
+
+export type TtsRate = {
+  perThousandChars: number; // Price per 1,000 synthesized characters
+};
+
+export type PricingConfig = {
+  currency: string;
+  maxCostPerRun?: number; // No per-run cap when omitted
+  maxCostPerDay?: number; // Across all runs started on the same (UTC) day
+  llm: Record<string, LlmRate>; // Model name prefix -> rate (longest prefix wins)
+  tts: Record<string, TtsRate>; // Voice model prefix -> rate
+};
+
+export type StageCost = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  characters: number;
+  cost: number;
+  estimated: boolean; // Some token counts were estimated from text length
+};
+
+export type RunCostStatus = 'running' | 'completed' | 'failed' | 'over-budget';
+
+export type RunCostSummary = {
+  runId: string;
+  startedAt: string;
+  finishedAt?: string;
+  status: RunCostStatus;
+  currency: string;
+  total: number;
+  budget: number | null; // Effective cap for this run
+  stages: Record<string, StageCost>;
+  unpricedModels: string[]; // Models missing from the rate table (counted as free)
+};
+
+/**
+ * Thrown when a run goes over its budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly summary: RunCostSummary
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Cached config (loaded once per process)
+let cachedConfig: PricingConfig | null = null;
+
+// Run being tracked (one pipeline run at a time)
+let currentRun: RunCostSummary | null = null;
+
+/**
+ * Returns true for finite numbers that are not negative
+ */
+function isRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validates the parsed content of the pricing config file
+ * @param data - Parsed JSON content
+ * @returns Validated pricing config
+ * @throws Error listing every validation problem found
+ */
+export function validatePricingConfig(data: unknown): PricingConfig {
+  const errors: string[] = [];
+  const raw =
+    data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+
+  if (typeof raw.currency !== 'string' || !raw.currency.trim()) {
+    errors.push('currency must be a non-empty string');
+  }
+
+  for (const field of ['maxCostPerRun', 'maxCostPerDay']) {
+    const value = raw[field];
+    if (
+      value !== undefined &&
+      (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)
+    ) {
+      errors.push(`${field} must be a positive number when set`);
+    }
+  }
+
+  const llm =
+    raw.llm && typeof raw.llm === 'object'
+      ? (raw.llm as Record<string, Record<string, unknown>>)
+      : {};
+  if (Object.keys(llm).length === 0) {
+    errors.push('llm must be a non-empty object of model -> rate');
+  }
+  for (const [model, rate] of Object.entries(llm)) {
+    if (
+      !isRate(rate?.promptPerMillion) ||
+      !isRate(rate?.completionPerMillion)
+    ) {
+      errors.push(
+        `llm."${model}" needs promptPerMillion and completionPerMillion (numbers >= 0)`
+      );
+    }
+  }
+
+  const tts =
+    raw.tts && typeof raw.tts === 'object'
+      ? (raw.tts as Record<string, Record<string, unknown>>)
+      : {};
+  for (const [model, rate] of Object.entries(tts)) {
+    if (!isRate(rate?.perThousandChars)) {
+      errors.push(`tts."${model}".perThousandChars must be a number >= 0`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid pricing config (${errors.length} problem(s)):\n` +
+        errors.map((error) => `  - ${error}`).join('\n')
+    );
+  }
+
+  return {
+    currency: (raw.currency as string).trim(),
+    maxCostPerRun: raw.maxCostPerRun as number | undefined,
+    maxCostPerDay: raw.maxCostPerDay as number | undefined,
+    llm: llm as Record<string, LlmRate>,
+    tts: tts as Record<string, TtsRate>,
+  };
+}
+
+/**
+ * Loads and validates the pricing config
+ * PRICING_CONFIG_PATH can point to an alternative file (relative to the working directory)
+ */
+export function loadPricingConfig(): PricingConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = path.resolve(
+    process.cwd(),
+    process.env.PRICING_CONFIG_PATH || DEFAULT_PRICING_CONFIG_PATH
+  );
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read pricing config at ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  cachedConfig = validatePricingConfig(data);
+  return cachedConfig;
+}
+
+/**
+ * Formats an amount in the configured currency
+ */
+export function formatCost(amount: number): string {
+  return `${amount.toFixed(4)} ${loadPricingConfig().currency}`;
+}
+
+/**
+ * Finds the rate for a model: the longest matching name prefix
+ * ("gpt-4o-mini-2024-07-18" uses "gpt-4o-mini", not "gpt-4o")
+ */
+function findRate<T>(rates: Record<string, T>, model: string): T | undefined {
+  const name = model.toLowerCase();
+  const prefix = Object.keys(rates)
+    .filter((candidate) => name.startsWith(candidate.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? undefined : rates[prefix];
+}
+
+/**
+ * Returns the cost of all runs recorded today (UTC)
+ */
+function getSpentToday(now: Date): number {
+  const today = now.toISOString().split('T')[0];
+  return readJsonLines<RunCostSummary>(RUN_COSTS_FILE)
+    .filter((run) => run.startedAt?.startsWith(today))
+    .reduce((sum, run) => sum + (run.total || 0), 0);
+}
+
+/**
+ * Starts tracking the costs of a pipeline run
+ * @param runId - Run identifier (e.g. "daily-2025-01-15T04:30:00.000Z")
+ * @throws BudgetExceededError when today's budget is already used up
+ */
+export function startRunCostTracking(runId: string): void {
+  const config = loadPricingConfig();
+  const now = new Date();
+
+  const caps: number[] = [];
+  if (config.maxCostPerRun !== undefined) {
+    caps.push(config.maxCostPerRun);
+  }
+  if (config.maxCostPerDay !== undefined) {
+    caps.push(Math.max(0, config.maxCostPerDay - getSpentToday(now)));
+  }
+
+  const run: RunCostSummary = {
+    runId,
+    startedAt: now.toISOString(),
+    status: 'running',
+    currency: config.currency,
+    total: 0,
+    budget: caps.length > 0 ? Math.min(...caps) : null,
+    stages: {},
+    unpricedModels: [],
+  };
+
+  if (run.budget === 0) {
+    throw new BudgetExceededError(
+      `Daily budget of ${formatCost(config.maxCostPerDay as number)} is already used up, not starting ${runId}`,
+      run
+    );
+  }
+
+  currentRun = run;
+  console.log(
+    `💰 Cost tracking started for ${runId} (budget: ${run.budget === null ? 'none' : formatCost(run.budget)})`
+  );
+}
+
+/**
+ * Returns the run being tracked, starting an ad-hoc one for calls made outside a pipeline run
+ */
+function getCurrentRun(): RunCostSummary {
+  if (!currentRun) {
+    startRunCostTracking(`adhoc-${new Date().toISOString()}`);
+  }
+  return currentRun as RunCostSummary;
+}
+
+/**
+ * Returns the cost entry of a stage, creating it on first use
+ */
+function getStage(run: RunCostSummary, stage: string): StageCost {
+  if (!run.stages[stage]) {
+    run.stages[stage] = {
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      characters: 0,
+      cost: 0,
+      estimated: false,
+    };
+  }
+  return run.stages[stage];
+}
+
+/**
+ * Throws when the run (plus an upcoming cost) goes over its budget
+ * @param stage - Stage about to spend or that just spent
+ * @param upcomingCost - Cost of a call that has not been made yet
+ * @throws BudgetExceededError
+ */
+export function ensureWithinBudget(stage: string, upcomingCost = 0): void {
+  const run = getCurrentRun();
+  if (run.budget === null || run.total + upcomingCost <= run.budget) {
+    return;
+  }
+
+  run.status = 'over-budget';
+  throw new BudgetExceededError(
+    upcomingCost > 0
+      ? `Budget exceeded: ${stage} would cost ${formatCost(upcomingCost)} on top of ${formatCost(run.total)} spent (budget ${formatCost(run.budget)})`
+      : `Budget exceeded after ${stage}: spent ${formatCost(run.total)} (budget ${formatCost(run.budget)})`,
+    getRunCostSummary() as RunCostSummary
+  );
+}
+
+/**
+ * Records the tokens and cost of an LLM call and enforces the budget
+ * Token counts are estimated from the text length when the provider reports no usage.
+ * @param request - Request sent (its stage, or label, names the stage)
+ * @param response - Provider response
+ * @throws BudgetExceededError when the run is now over budget
+ */
+export function recordLlmUsage(
+  request: LlmRequest,
+  response: LlmResponse
+): void {
+  const run = getCurrentRun();
+  const stageName = request.stage || request.label;
+  const stage = getStage(run, stageName);
+
+  const promptTokens =
+    response.usage?.promptTokens ??
+    Math.ceil(
+      request.messages.reduce(
+        (sum, message) => sum + message.content.length,
+        0
+      ) / CHARS_PER_TOKEN
+    );
+  const completionTokens =
+    response.usage?.completionTokens ??
+    Math.ceil(response.content.length / CHARS_PER_TOKEN);
+
+  const rate = findRate(loadPricingConfig().llm, response.model);
+  if (!rate && !run.unpricedModels.includes(response.model)) {
+    run.unpricedModels.push(response.model);
+    console.warn(
+      `⚠️ No price for model "${response.model}" in the pricing config, counting it as free`
+    );
+  }
+  const cost = rate
+    ? (promptTokens * rate.promptPerMillion +
+        completionTokens * rate.completionPerMillion) /
+      1_000_000
+    : 0;
+
+  stage.calls++;
+  stage.promptTokens += promptTokens;
+  stage.completionTokens += completionTokens;
+  stage.cost += cost;
+  stage.estimated = stage.estimated || !response.usage;
+  run.total += cost;
+
+  console.log(
+    `💰 ${request.label}: ${promptTokens} + ${completionTokens} tokens${response.usage ? '' : ' (estimated)'} on ${response.model}, ${formatCost(cost)} (run total ${formatCost(run.total)})`
+  );
+  ensureWithinBudget(stageName);
+}
+
+/**
+ * Returns the price of synthesizing text with a TTS voice model
+ */
+export function estimateTtsCost(model: string, characters: number): number {
+  const rate = findRate(loadPricingConfig().tts, model);
+  return rate ? (characters / 1000) * rate.perThousandChars : 0;
+}
+
+/**
+ * Records the characters and cost of a TTS call
+ * @param stage - Stage name (e.g. "Text-to-speech")
+ * @param model - Voice model
+ * @param characters - Characters synthesized
+ */
+export function recordTtsUsage(
+  stage: string,
+  model: string,
+  characters: number
+): void {
+  const run = getCurrentRun();
+  const entry = getStage(run, stage);
+
+  if (
+    !findRate(loadPricingConfig().tts, model) &&
+    !run.unpricedModels.includes(model)
+  ) {
+    run.unpricedModels.push(model);
+    console.warn(
+      `⚠️ No price for voice model "${model}" in the pricing config, counting it as free`
+    );
+  }
+
+  const cost = estimateTtsCost(model, characters);
+  entry.calls++;
+  entry.characters += characters;
+  entry.cost += cost;
+  run.total += cost;
+}
+
+/**
+ * Returns a snapshot of the run being tracked, or null when no run is tracked
+ */
+export function getRunCostSummary(): RunCostSummary | null {
+  return currentRun ? JSON.parse(JSON.stringify(currentRun)) : null;
+}
+
+/**
+ * Stops tracking the current run and appends it to the run cost history
+ * @param status - How the run ended
+ * @returns Final summary, or null when no run was tracked
+ */
+export function finishRunCostTracking(
+  status: Exclude<RunCostStatus, 'running'>
+): RunCostSummary | null {
+  if (!currentRun) {
+    return null;
+  }
+
+  const summary: RunCostSummary = {
+    ...currentRun,
+    // A run stopped by the budget stays over-budget whatever the caller saw
+    status: currentRun.status === 'over-budget' ? 'over-budget' : status,
+    finishedAt: new Date().toISOString(),
+  };
+  currentRun = null;
+
+  appendJsonLines(RUN_COSTS_FILE, [summary]);
+  console.log(`💰 Run cost for ${summary.runId}: ${formatCost(summary.total)}`);
+  return summary;
+}
+
+/**
+ * Formats a run's totals per stage (for logs and Discord)
+ */
+export function formatRunCosts(summary: RunCostSummary): string {
+  const lines = [
+    `Total: ${formatCost(summary.total)}${summary.budget === null ? '' : ` of ${formatCost(summary.budget)} budget`}`,
+  ];
+
+  for (const [name, stage] of Object.entries(summary.stages)) {
+    const usage =
+      stage.characters > 0
+        ? `${stage.characters.toLocaleString('en-US')} chars`
+        : `${stage.promptTokens.toLocaleString('en-US')} + ${stage.completionTokens.toLocaleString('en-US')} tokens${stage.estimated ? ' (est.)' : ''}`;
+    lines.push(
+      `${name}: ${formatCost(stage.cost)} (${stage.calls} call(s), ${usage})`
+    );
+  }
+
+  if (summary.unpricedModels.length > 0) {
+    lines.push(`Unpriced: ${summary.unpricedModels.join(', ')}`);
+  }
+  return lines.join('\n');
+}
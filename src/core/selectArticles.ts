@@ -1,51 +1,49 @@
-import { OpenAI } from 'openai';
-import { Article, SelectedArticlesResult, ArticleSelectionOptions } from '../types/types';
-import { normalizeTitleForDedup, uniqueBy, truncateText } from '../utils/textUtils';
+import { Article, SelectedArticlesResult, ArticleSelectionOptions, ScoredArticle, InterestProfile, SelectionRationale } from '../types/types';
+import { normalizeTitleForDedup, truncateText, escapeHtml } from '../utils/textUtils';
+import { getUrlKey, getArticleUrlKey } from '../utils/urlUtils';
 import { logInfo } from '../utils/logger';
+import { getArticlePriority, getArticleSourceName } from './feedRegistry';
+import { getCoveredArticles } from './articleStore';
+import { clusterStories, getAlsoReportedBy } from './storyClustering';
+import { getInterestProfile, describeProfileForPrompt } from './interestProfiles';
+import { filterArticlesByKeywords } from './keywordClassifier';
+import { applyEditorialOverrides } from './editorialOverrides';
+import { ARTICLE_CATEGORIES, ARTICLE_CATEGORY_LABELS, isArticleCategory, guessArticleCategory } from './articleCategories';
+import { applyDiversityRules } from './selectionDiversity';
+import { scoreArticles, loadScoringConfig, formatScore, recordScoringRun } from './articleScoring';
+import { BudgetExceededError } from './runCosts';
+import { getLlmProvider, getMissingLlmConfig, isLlmProviderConfigured, LlmProvider } from '../ai/llmProvider';
+import { requestStructuredOutput, idListSchema, checkIdList, IdListLimits, OutputSchema } from '../ai/structuredOutput';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
-/**
- * AI keywords for filtering AI-related articles
- */
-const AI_KEYWORDS = [
-  'ai', 'artificial intelligence', 'llm', 'large language model', 'model', 'gpt',
-  'anthropic', 'openai', 'deepmind', 'nvidia', 'transformer', 'machine learning',
-  'ml', 'deep learning', 'neural network', 'chatgpt', 'computer vision', 'nlp',
-  'natural language processing', 'robotics', 'automation', 'algorithm', 'data science',
-  'tensorflow', 'pytorch', 'generative ai', 'attention', 'reinforcement learning',
-  'claude', 'gemini', 'bard', 'copilot', 'midjourney', 'dall-e', 'stable diffusion'
-];
+// Fewer selected articles than this makes for a too-short episode
+const MIN_SELECTED_ARTICLES = 5;
+
+// Longest accepted "why it matters" line
+const MAX_REASON_LENGTH = 200;
+
 
 /**
- * Filters articles to only include AI-related content using OpenAI
+ * Filters articles to only include AI-related content using the LLM provider
  * @param articles - Array of articles to filter
+ * @param profile - Audience interest profile
  * @returns Array of AI-related articles
  */
-async function filterAIArticles(articles: Article[]): Promise<Article[]> {
+async function filterAIArticles(articles: Article[], profile: InterestProfile): Promise<Article[]> {
   if (articles.length === 0) {
     return [];
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    console.warn('⚠️ OpenAI API key not configured, falling back to keyword filtering');
-    return articles.filter(article => {
-      const title = article.title.toLowerCase();
-      const summary = article.summary.toLowerCase();
-      
-      return AI_KEYWORDS.some(keyword => 
-        title.includes(keyword) || summary.includes(keyword)
-      );
-    });
+  if (!isLlmProviderConfigured()) {
+    console.warn(`⚠️ LLM provider not configured (missing ${getMissingLlmConfig().join(', ')}), falling back to keyword filtering`);
+    return filterArticlesByKeywords(articles, profile);
   }
 
-  console.log(`🤖 Using AI to filter ${articles.length} articles for AI-related content...`);
-
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+  const llm = getLlmProvider();
+  console.log(`🤖 Using AI (${llm.name}) to filter ${articles.length} articles for AI-related content...`);
 
   // Prepare articles for AI filtering (simplified format for efficiency)
   const articlesForFiltering = articles.map(article => ({
@@ -66,11 +64,16 @@ async function filterAIArticles(articles: Article[]): Promise<Article[]> {
       console.log(`📦 Processing chunk ${Math.floor(i / CHUNK_SIZE) + 1}/${Math.ceil(articlesForFiltering.length / CHUNK_SIZE)} (${chunk.length} articles)...`);
       
       try {
-        const chunkResult = await processArticleChunk(openai, chunk, i);
+        const chunkResult = await processArticleChunk(llm, chunk, i, profile);
         allSelectedIds.push(...chunkResult);
       } catch (error) {
-        console.error(`❌ Failed to process chunk ${Math.floor(i / CHUNK_SIZE) + 1}, skipping:`, error);
-        // Continue with other chunks
+        // Keyword fallback must not hide a run that is over budget
+        if (error instanceof BudgetExceededError) {
+          throw error;
+        }
+        console.error(`❌ Failed to process chunk ${Math.floor(i / CHUNK_SIZE) + 1}, using keyword filtering for it:`, error);
+        const fallback = filterArticlesByKeywords(articles.slice(i, i + CHUNK_SIZE), profile);
+        allSelectedIds.push(...fallback.map(article => article.id));
       }
     }
     
@@ -85,23 +88,33 @@ async function filterAIArticles(articles: Article[]): Promise<Article[]> {
   }
 
   // Process all articles at once if under chunk size
-  const selectedIds = await processArticleChunk(openai, articlesForFiltering, 0);
-  return articles.filter(article => selectedIds.includes(article.id));
+  try {
+    const selectedIds = await processArticleChunk(llm, articlesForFiltering, 0, profile);
+    return articles.filter(article => selectedIds.includes(article.id));
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      throw error;
+    }
+    console.error('❌ AI filtering failed, falling back to keyword filtering:', error);
+    return filterArticlesByKeywords(articles, profile);
+  }
 }
 
 /**
  * Process a chunk of articles with AI filtering
  */
-async function processArticleChunk(openai: OpenAI, articlesForFiltering: any[], chunkIndex: number): Promise<string[]> {
+async function processArticleChunk(llm: LlmProvider, articlesForFiltering: { id: string; title: string; summary: string }[], chunkIndex: number, profile: InterestProfile): Promise<string[]> {
   const systemPrompt = `You are an expert AI news curator. Your job is to identify which articles are genuinely AI-related and important for an AI news podcast.
 
+${describeProfileForPrompt(profile)}
+
 FILTERING CRITERIA:
 - Include articles about artificial intelligence, machine learning, LLMs, AI research, AI companies, AI tools, AI applications
 - Include articles about major AI models (GPT, Claude, Gemini, etc.), AI frameworks, AI hardware
 - Include articles about AI ethics, AI policy, AI industry developments
 - Exclude articles that only mention AI in passing or as a minor topic
 - Exclude non-AI tech articles, general business news, or unrelated content
-- Focus on articles that would be interesting to AI practitioners and enthusiasts
+- Focus on articles that would be interesting to ${profile.audience}
 
 RETURN FORMAT:
 Return ONLY a valid JSON object with this exact structure:
@@ -121,53 +134,24 @@ ${articlesJson}
 Return the JSON with aiRelatedIds array:`;
 
   try {
-    console.log(`📊 Sending ${articlesForFiltering.length} articles to OpenAI for filtering...`);
+    console.log(`📊 Sending ${articlesForFiltering.length} articles to the LLM for filtering...`);
     console.log(`📏 Input size: ${userPrompt.length} characters`);
     
-    const completion = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    // Any subset of the chunk is valid, but every id must come from it
+    const aiRelatedIds = await requestStructuredOutput(llm, {
+      label: `AI filter chunk ${chunkIndex + 1}`,
+      stage: 'AI filter',
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
       ],
-      max_tokens: 4000, // Increased token limit for larger responses
-      temperature: 0.1, // Low temperature for consistent filtering
-      response_format: { type: 'json_object' }
+      schema: idListSchema('aiRelatedIds', articlesForFiltering.map(article => article.id)),
+      maxTokens: 4000, // Increased token limit for larger responses
+      temperature: 0.1 // Low temperature for consistent filtering
     });
 
-    const response = completion.choices[0]?.message?.content;
-    if (!response) {
-      throw new Error('No response from OpenAI');
-    }
-
-    console.log(`📊 OpenAI response length: ${response.length} characters`);
-    console.log(`🔍 Response preview: ${response.substring(0, 200)}...`);
-
-    // Check if response looks truncated
-    if (!response.trim().endsWith('}')) {
-      console.warn('⚠️ Response appears to be truncated (does not end with }), this might cause JSON parsing issues');
-    }
-
-    // Parse the JSON response
-    let result: { aiRelatedIds: string[] };
-    try {
-      result = JSON.parse(response) as { aiRelatedIds: string[] };
-    } catch (parseError) {
-      console.error('❌ JSON parsing failed:');
-      console.error('Response length:', response.length);
-      console.error('Response ends with:', response.slice(-100));
-      console.error('Parse error:', parseError);
-      throw new Error(`JSON parsing failed: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-    }
-    
-    if (!result.aiRelatedIds || !Array.isArray(result.aiRelatedIds)) {
-      console.error('❌ Invalid response format:');
-      console.error('Response:', response);
-      throw new Error('Invalid response format from AI');
-    }
-
-    console.log(`📊 AI selected ${result.aiRelatedIds.length} article IDs from chunk`);
-    return result.aiRelatedIds;
+    console.log(`📊 AI selected ${aiRelatedIds.length} article IDs from chunk`);
+    return aiRelatedIds;
 
   } catch (error) {
     console.error(`❌ Failed to process chunk ${chunkIndex + 1}:`, error);
@@ -176,35 +160,47 @@ Return the JSON with aiRelatedIds array:`;
 }
 
 /**
- * Deduplicates articles by link and normalized title
- * @param articles - Array of articles to deduplicate
- * @returns Array of unique articles
+ * Removes articles that earlier episodes already covered
+ * Matches on article id, canonical URL and normalized title, so the same story
+ * re-published under a slightly different link is caught as well.
+ * @param articles - Candidate articles
+ * @param currentEpisodeId - Episode being generated (its own usage is ignored)
+ * @returns Articles not covered before
  */
-function deduplicateArticles(articles: Article[]): Article[] {
-  // First deduplicate by link
-  const byLink = uniqueBy(articles, article => article.link);
-  
-  // Then deduplicate by normalized title
-  const byTitle = uniqueBy(byLink, article => normalizeTitleForDedup(article.title));
-  
-  return byTitle;
+function excludeCoveredArticles(articles: Article[], currentEpisodeId?: string): Article[] {
+  const covered = getCoveredArticles(currentEpisodeId);
+  const coveredIds = new Set(covered.map(article => article.id));
+  const coveredUrls = new Set(covered.map(article => getUrlKey(article.link)));
+  const coveredTitles = new Set(covered.map(article => normalizeTitleForDedup(article.title)));
+
+  return articles.filter(article =>
+    !coveredIds.has(article.id) &&
+    !coveredUrls.has(getArticleUrlKey(article)) &&
+    !coveredTitles.has(normalizeTitleForDedup(article.title))
+  );
 }
 
 /**
  * Prepares articles for AI selection by formatting them compactly
- * @param articles - Array of articles to prepare
+ * @param scoredArticles - Scored candidate stories to prepare
+ * @param pinnedIds - Ids of the stories pinned by the editors
  * @returns Formatted string for AI prompt
  */
-function prepareArticlesForAI(articles: Article[]): string {
-  return articles.map(article => {
+function prepareArticlesForAI(scoredArticles: ScoredArticle[], pinnedIds: Set<string>): string {
+  return scoredArticles.map(({ article, score }) => {
     const pubDate = article.pubDate ? new Date(article.pubDate).toLocaleDateString('en-US', { 
       month: 'short', 
       day: 'numeric' 
     }) : 'Unknown date';
     
+    const alsoReportedBy = getAlsoReportedBy(article);
+
     return `{
-  "id": "${article.id}",
-  "source": "${article.source}",
+  "id": "${article.id}",${pinnedIds.has(article.id) ? '\n  "pinned": true,' : ''}
+  "source": "${getArticleSourceName(article)}",
+  "priority": ${getArticlePriority(article)},
+  "alsoReportedBy": ${JSON.stringify(alsoReportedBy)},
+  "score": ${score.toFixed(3)},
   "title": "${article.title.replace(/"/g, '\\"')}",
   "pubDate": "${pubDate}",
   "summary": "${truncateText(article.summary.replace(/"/g, '\\"'), 500)}"
@@ -222,62 +218,230 @@ export async function selectTopArticles(
   articles: Article[],
   opts: ArticleSelectionOptions = {}
 ): Promise<SelectedArticlesResult> {
-  const { maxCount = 10 } = opts;
+  const { maxCount = 10, excludeCovered = true, episodeId } = opts;
+  const profile = opts.profile || getInterestProfile();
   
-  console.log(`🔍 Starting article selection from ${articles.length} total articles...`);
+  console.log(`🔍 Starting article selection from ${articles.length} total articles (profile: ${profile.name})...`);
+  
+  // Step 0: Apply editorial pins and blocks, then drop stories that earlier episodes already used
+  // (pinned ones too, so a pin without expiry does not repeat its story in every episode)
+  const overrides = applyEditorialOverrides(articles);
+  const candidates = excludeCovered ? excludeCoveredArticles(overrides.articles, episodeId) : overrides.articles;
+  if (candidates.length < overrides.articles.length) {
+    console.log(`🗃️ Excluded ${overrides.articles.length - candidates.length} articles already covered in earlier episodes`);
+  }
+  const pinnedArticles = excludeCovered ? excludeCoveredArticles(overrides.pinned, episodeId) : overrides.pinned;
+  for (const article of overrides.pinned.filter(article => !pinnedArticles.includes(article))) {
+    console.log(`📌 Pinned article already covered in an earlier episode, not selecting it again: ${article.title}`);
+  }
   
-  // Step 1: Filter for AI-related articles using AI
-  const aiArticles = await filterAIArticles(articles);
+  // Step 1: Filter for AI-related articles using AI (pinned articles skip the filter)
+  const aiArticles = await filterAIArticles(candidates, profile);
   console.log(`🤖 AI filtered to ${aiArticles.length} AI-related articles`);
   
-  if (aiArticles.length === 0) {
+  if (aiArticles.length === 0 && pinnedArticles.length === 0) {
     throw new Error('No AI-related articles found');
   }
   
-  // Step 2: Deduplicate articles
-  const uniqueArticles = deduplicateArticles(aiArticles);
-  console.log(`🔄 Deduplicated to ${uniqueArticles.length} unique articles`);
+  // Step 2: Group articles about the same story (keeps one representative per story)
+  const uniqueArticles = clusterStories([...pinnedArticles, ...aiArticles]);
+  console.log(`🧩 Clustered into ${uniqueArticles.length} unique stories`);
   
-  // Step 3: Prepare for AI selection
-  const articlesForAI = prepareArticlesForAI(uniqueArticles);
+  // A story is pinned when any of its copies is (the representative may come from another outlet)
+  const pinnedArticleIds = new Set(pinnedArticles.map(article => article.id));
+  const pinnedIds = new Set(
+    uniqueArticles
+      .filter(article => [article.id, ...(article.relatedSources || []).map(related => related.id)].some(id => pinnedArticleIds.has(id)))
+      .map(article => article.id)
+  );
   
-  // Step 4: Get AI selection
-  const selectedIds = await selectArticlesWithAI(articlesForAI, maxCount);
+  // Step 3: Score the stories and keep the top-N (plus pinned stories) as candidates for the LLM
+  const scored = scoreArticles(uniqueArticles, episodeId);
+  const maxCandidates = loadScoringConfig().maxCandidates;
+  const shortlist = scored.filter((entry, index) => index < maxCandidates || pinnedIds.has(entry.article.id));
+  console.log(`📊 Top scored stories (${shortlist.length}/${scored.length} go to the selector):`);
+  for (const entry of shortlist.slice(0, 10)) {
+    console.log(`   ${formatScore(entry)} ${entry.article.title}`);
+  }
+  
+  // Step 4: Prepare for AI selection
+  const articlesForAI = prepareArticlesForAI(shortlist, pinnedIds);
+  
+  // Step 5: Get AI selection (pinned stories must be part of it)
+  const candidateIds = shortlist.map(({ article }) => article.id);
+  const aiSelection = await selectArticlesWithAI(articlesForAI, candidateIds, Math.max(maxCount, pinnedIds.size), profile, Array.from(pinnedIds));
+  
+  // Step 6: Enforce the diversity rules, backfilling from the alternates and then the next-best scored stories
+  // (ids are validated against the shortlist, so every id maps back to a representative)
+  const byId = new Map(shortlist.map(({ article }) => [article.id, article]));
+  const toCandidate = (rationale: SelectionRationale) => ({ article: byId.get(rationale.id) as Article, rationale });
+  const rankedIds = new Set([...aiSelection.selected, ...aiSelection.alternates].map(rationale => rationale.id));
+  const diversity = applyDiversityRules(
+    aiSelection.selected.map(toCandidate),
+    [
+      ...aiSelection.alternates.map(toCandidate),
+      ...shortlist.filter(({ article }) => !rankedIds.has(article.id)).map(({ article }) => ({ article, category: guessArticleCategory(article) })),
+    ],
+    loadScoringConfig().diversity,
+    pinnedIds
+  );
+  if (diversity.addedIds.length > 0) {
+    console.log(`🎛️ Diversity rules swapped out ${diversity.removedIds.length} and backfilled ${diversity.addedIds.length} articles`);
+  }
+  for (const rule of diversity.unmetRules) {
+    console.warn(`⚠️ Diversity rule not met (not enough candidates): ${rule}`);
+  }
   
-  console.log(`✅ Selected ${selectedIds.length} articles for podcast`);
-  await logInfo(`Selected ${selectedIds.length} articles from ${articles.length} total articles`);
+  const selected = diversity.selected.map(candidate => candidate.article);
+  const rationales = diversity.selected
+    .map(candidate => candidate.rationale)
+    .filter((rationale): rationale is SelectionRationale => rationale !== undefined);
+  for (const { article, rationale, category } of diversity.selected) {
+    console.log(`   [${rationale?.category || `backfill${category ? `: ${category}` : ''}`}] ${article.title}${rationale ? `: ${rationale.reason}` : ''}`);
+  }
+
+  recordScoringRun(
+    episodeId || new Date().toISOString(),
+    scored,
+    candidateIds,
+    rationales,
+    overrides.applied,
+    diversity
+  );
+
+  console.log(`✅ Selected ${selected.length} articles for podcast`);
+  await logInfo(`Selected ${selected.length} articles from ${articles.length} total articles`);
+  if (diversity.unmetRules.length > 0) {
+    await logInfo(`Diversity rules not met (not enough candidates): ${diversity.unmetRules.join('; ')}`);
+  }
+  if (overrides.applied.length > 0) {
+    await logInfo(
+      `Editorial overrides applied: ${overrides.applied.map(override => `${override.type} "${override.value}" (${override.articleIds.length})`).join(', ')}`
+    );
+  }
   
-  return { selectedIds };
+  return { selectedIds: selected.map(article => article.id), articles: selected, rationales };
 }
 
+type AISelection = {
+  selected: SelectionRationale[];
+  alternates: SelectionRationale[]; // Ranked backups for the diversity rules
+};
+
 /**
- * Uses AI to select the best articles from the prepared list
- * @param articlesJson - JSON string of articles
- * @param maxCount - Maximum number of articles to select
- * @returns Array of selected article IDs
+ * Validates one array of { id, category, reason } entries of the selection response
+ * @returns Parsed entries, or undefined when the field is not an array
  */
-async function selectArticlesWithAI(articlesJson: string, maxCount: number): Promise<string[]> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured');
+function parseRationales(field: string, value: unknown, problems: string[]): SelectionRationale[] | undefined {
+  if (!Array.isArray(value)) {
+    problems.push(`The JSON must contain a "${field}" array of { id, category, reason } objects.`);
+    return undefined;
   }
 
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
+  const startProblems = problems.length;
+  value.forEach((entry: Record<string, unknown>, index) => {
+    if (typeof entry?.id !== 'string') {
+      problems.push(`${field}[${index}].id must be a string.`);
+    }
+    if (!isArticleCategory(entry?.category)) {
+      problems.push(`${field}[${index}].category must be one of: ${ARTICLE_CATEGORIES.join(', ')}.`);
+    }
+    if (typeof entry?.reason !== 'string' || !entry.reason.trim()) {
+      problems.push(`${field}[${index}].reason must be a non-empty string.`);
+    } else if (entry.reason.length > MAX_REASON_LENGTH) {
+      problems.push(`${field}[${index}].reason is longer than ${MAX_REASON_LENGTH} characters; shorten it to one sentence.`);
+    }
   });
+  if (problems.length > startProblems) {
+    return undefined;
+  }
+
+  return (value as SelectionRationale[]).map(entry => ({
+    id: entry.id,
+    category: entry.category,
+    reason: entry.reason.trim(),
+  }));
+}
+
+/**
+ * Builds the schema of the selection response: "selected" and "alternates" lists of { id, category, reason }
+ * @param candidateIds - Ids of the shortlisted articles
+ * @param limits - Minimum and maximum number of selected articles
+ * @param maxAlternates - Maximum number of alternates
+ */
+function selectionSchema(candidateIds: string[], limits: IdListLimits, maxAlternates: number): OutputSchema<AISelection> {
+  return (value) => {
+    const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+    const problems: string[] = [];
+
+    const selected = parseRationales('selected', raw.selected, problems);
+    const alternates = parseRationales('alternates', raw.alternates ?? [], problems);
+    if (!selected || !alternates) {
+      return { ok: false, problems };
+    }
+
+    const selectedIds = selected.map(rationale => rationale.id);
+    const alternateIds = alternates.map(rationale => rationale.id);
+    problems.push(...checkIdList(selectedIds, candidateIds, limits));
+    problems.push(...checkIdList(alternateIds, candidateIds, { max: maxAlternates }).map(problem => `alternates: ${problem}`));
+    const overlap = alternateIds.filter(id => selectedIds.includes(id));
+    if (overlap.length > 0) {
+      problems.push(`These ids are in both selected and alternates: ${overlap.join(', ')}.`);
+    }
+
+    return problems.length > 0
+      ? { ok: false, problems }
+      : { ok: true, value: { selected, alternates } };
+  };
+}
+
+/**
+ * Uses AI to select the best articles from the prepared list
+ * @param articlesJson - JSON string of articles
+ * @param candidateIds - Ids of the articles in articlesJson
+ * @param maxCount - Maximum number of articles to select
+ * @param profile - Audience interest profile
+ * @param pinnedIds - Ids of stories pinned by the editors (always selected)
+ * @returns Selected and alternate article ids (all from candidateIds) with their category and reason
+ * @throws StructuredOutputError when the model returns no valid selection after retries
+ */
+async function selectArticlesWithAI(articlesJson: string, candidateIds: string[], maxCount: number, profile: InterestProfile, pinnedIds: string[] = []): Promise<AISelection> {
+  const llm = getLlmProvider();
+  const { diversity } = loadScoringConfig();
 
   const systemPrompt = `You are an expert AI news curator. Your job is to select the most important and impactful AI-related news articles for a daily podcast.
 
+${describeProfileForPrompt(profile)}
+
 SELECTION CRITERIA:
 - Choose ONLY AI-related news (artificial intelligence, machine learning, LLMs, etc.)
 - Prefer recent and high-impact stories
 - Remove near duplicates (if multiple articles cover the same event, pick the best one)
+- "alsoReportedBy" lists other outlets that covered the same story; wide coverage is a sign of importance
+- Each article has a source "priority" weight (1 = neutral); when stories are otherwise comparable, prefer higher-priority sources
+- Each article has a deterministic relevance "score" (0-1, from recency, source priority, coverage, topics and novelty); use it as a strong hint, but judge importance yourself
 - Target ${maxCount} articles (but quality over quantity)
-- Focus on developments that matter to AI practitioners and enthusiasts
+- Cover a variety of outlets: at most ${diversity.maxPerSource} articles from the same source
+- Articles marked "pinned": true were chosen by the editors and MUST be selected
+- Focus on developments that matter to ${profile.audience}
+
+Also list up to ${maxCount} "alternates": the next-best articles, best first, used as replacements if the selection has to be rebalanced.
+
+For each selected and alternate article, give:
+- "category": one of ${ARTICLE_CATEGORIES.map(category => `"${category}"`).join(', ')} (pick the closest)
+- "reason": one short sentence (max ${MAX_REASON_LENGTH} characters) on why it matters to ${profile.audience}
 
 RETURN FORMAT:
-Return ONLY a valid JSON object with this exact structure:
+Return ONLY a valid JSON object with this exact structure, most important article first:
 {
-  "selectedIds": ["id1", "id2", "id3", ...]
+  "selected": [
+    { "id": "id1", "category": "research", "reason": "Why this story matters" },
+    ...
+  ],
+  "alternates": [
+    { "id": "id7", "category": "policy", "reason": "Why this story matters" },
+    ...
+  ]
 }
 
 The IDs MUST come from the provided list with no modifications.`;
@@ -286,41 +450,25 @@ The IDs MUST come from the provided list with no modifications.`;
 
 [${articlesJson}]
 
-Return the JSON with selectedIds array:`;
+Return the JSON with the selected array:`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    // Too few picks is what produced short episodes, so it counts as invalid output
+    return await requestStructuredOutput(llm, {
+      label: 'Article selection',
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
       ],
-      max_tokens: 1000,
-      temperature: 0.3,
-      response_format: { type: 'json_object' }
+      schema: selectionSchema(candidateIds, {
+        min: Math.min(MIN_SELECTED_ARTICLES, maxCount),
+        max: maxCount,
+        required: pinnedIds
+      }, maxCount),
+      maxTokens: 3000, // Room for a reason per selected and alternate article
+      temperature: 0.3
     });
 
-    const response = completion.choices[0]?.message?.content;
-    if (!response) {
-      throw new Error('No response from OpenAI');
-    }
-
-    // Parse the JSON response
-    const result = JSON.parse(response) as SelectedArticlesResult;
-    
-    if (!result.selectedIds || !Array.isArray(result.selectedIds)) {
-      throw new Error('Invalid response format from AI');
-    }
-
-    // Validate and limit the results
-    const validIds = result.selectedIds.slice(0, maxCount);
-    
-    if (validIds.length < 5) {
-      console.warn(`⚠️ AI selected only ${validIds.length} articles, which is less than recommended minimum of 5`);
-    }
-
-    return validIds;
-
   } catch (error) {
     console.error('❌ Failed to select articles with AI:', error);
     throw error;
@@ -336,9 +484,54 @@ Return the JSON with selectedIds array:`;
 export function buildBulletHtmlFromSelected(selected: Article[], limit = 10): string {
   const limited = selected.slice(0, limit);
   
-  const bulletpoints = limited.map(article => 
-    `<li><a href="${article.link}" target="_blank" style="color: #007acc; text-decoration: none;">${article.title}</a> <span style="color: #888; font-size: 0.9em;">(${article.source})</span></li>`
-  ).join('\n');
+  const bulletpoints = limited.map(article => buildBulletItemHtml(article)).join('\n');
   
   return `<ul style="font-size: 14px; line-height: 1.8; color: #555; list-style-type: disc; padding-left: 20px;">\n${bulletpoints}\n</ul>`;
 }
+
+/**
+ * Builds the HTML list item of one article, with its "why it matters" line when known
+ */
+function buildBulletItemHtml(article: Article, reason?: string): string {
+  const alsoReportedBy = getAlsoReportedBy(article);
+  const sources = alsoReportedBy.length > 0
+    ? `${getArticleSourceName(article)}; also reported by ${alsoReportedBy.join(', ')}`
+    : getArticleSourceName(article);
+  const whyItMatters = reason
+    ? `<br><span style="color: #555; font-size: 0.9em;">Why it matters: ${escapeHtml(reason)}</span>`
+    : '';
+
+  return `<li><a href="${escapeHtml(article.link)}" target="_blank" style="color: #007acc; text-decoration: none;">${escapeHtml(article.title)}</a> <span style="color: #888; font-size: 0.9em;">(${escapeHtml(sources)})</span>${whyItMatters}</li>`;
+}
+
+/**
+ * Builds HTML bulletpoints grouped by selection category, each with its "why it matters" line
+ * Falls back to a flat list when no rationales are available.
+ * @param selected - Array of selected articles
+ * @param rationales - Selection rationales (matched to the articles by id)
+ * @returns HTML string with a heading and list per category
+ */
+export function buildCategorizedBulletHtml(selected: Article[], rationales: SelectionRationale[] = []): string {
+  const byId = new Map(rationales.map(rationale => [rationale.id, rationale]));
+  if (!selected.some(article => byId.has(article.id))) {
+    return buildBulletHtmlFromSelected(selected, selected.length);
+  }
+
+  const groups = ARTICLE_CATEGORIES
+    .map(category => ({
+      label: ARTICLE_CATEGORY_LABELS[category],
+      articles: selected.filter(article => byId.get(article.id)?.category === category),
+    }));
+  // Articles without a rationale are still listed
+  groups.push({ label: 'Other', articles: selected.filter(article => !byId.has(article.id)) });
+
+  return groups
+    .filter(group => group.articles.length > 0)
+    .map(group => {
+      const bulletpoints = group.articles
+        .map(article => buildBulletItemHtml(article, byId.get(article.id)?.reason))
+        .join('\n');
+      return `<h4 style="color: #333; margin: 20px 0 5px;">${group.label}</h4>\n<ul style="font-size: 14px; line-height: 1.8; color: #555; list-style-type: disc; padding-left: 20px;">\n${bulletpoints}\n</ul>`;
+    })
+    .join('\n');
+}
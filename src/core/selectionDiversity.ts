@@ -0,0 +1,158 @@
+import { Article, ArticleCategory, SelectionRationale } from '../types/types';
+import { DiversityRules } from './articleScoring';
+import { getArticleSourceName } from './feedRegistry';
+
+/**
+ * Selection diversity rules
+ *
+ * Enforces source and category variety on the final selection, whatever the
+ * model returned: at most maxPerSource articles per outlet, at least
+ * minDistinctSources different outlets and optional per-category minimums and
+ * maximums. Articles that break a rule are swapped, lowest-ranked first, for
+ * the next-best candidates (the model's alternates, then the remaining
+ * stories by score) until every rule is met or no swap helps anymore.
+ * Stories the model did not rank count towards a category quota by a keyword
+ * guess of their category; a category minimum stays unmet when no candidate
+ * matches it.
+ */
+
+export type RankedCandidate = {
+  article: Article;
+  rationale?: SelectionRationale; // Missing for stories the model did not rank
+  category?: ArticleCategory; // Keyword guess for stories the model did not rank
+};
+
+/**
+ * Returns the category a candidate counts towards: the model's, else the keyword guess
+ */
+function getCandidateCategory(
+  candidate: RankedCandidate
+): ArticleCategory | undefined {
+  return candidate.rationale?.category ?? candidate.category;
+}
+
+export type DiversityResult = {
+  selected: RankedCandidate[];
+  addedIds: string[];
+  removedIds: string[];
+  unmetRules: string[]; // Rules that could not be met with the available candidates
+};
+
+/**
+ * Measures how far a selection is from meeting the rules
+ * @returns Total number of articles over or under a limit, and a description per broken rule
+ */
+function measureViolations(
+  selection: RankedCandidate[],
+  rules: DiversityRules
+): { total: number; rules: string[] } {
+  let total = 0;
+  const broken: string[] = [];
+
+  const perSource = new Map<string, number>();
+  for (const { article } of selection) {
+    const source = getArticleSourceName(article);
+    perSource.set(source, (perSource.get(source) || 0) + 1);
+  }
+  for (const [source, count] of perSource) {
+    if (count > rules.maxPerSource) {
+      total += count - rules.maxPerSource;
+      broken.push(
+        `${source} has ${count} articles (max ${rules.maxPerSource} per source)`
+      );
+    }
+  }
+
+  // A short selection cannot have more sources than articles
+  const minSources = Math.min(rules.minDistinctSources, selection.length);
+  if (perSource.size < minSources) {
+    total += minSources - perSource.size;
+    broken.push(
+      `only ${perSource.size} distinct sources (min ${rules.minDistinctSources})`
+    );
+  }
+
+  for (const [category, quota] of Object.entries(rules.categoryQuotas)) {
+    const count = selection.filter(
+      (candidate) => getCandidateCategory(candidate) === category
+    ).length;
+    if (quota?.min !== undefined && count < quota.min) {
+      total += quota.min - count;
+      broken.push(`${count} ${category} articles (min ${quota.min})`);
+    }
+    if (quota?.max !== undefined && count > quota.max) {
+      total += count - quota.max;
+      broken.push(`${count} ${category} articles (max ${quota.max})`);
+    }
+  }
+
+  return { total, rules: broken };
+}
+
+/**
+ * Applies the diversity rules to the model's selection
+ * @param selected - Articles the model selected, in its order
+ * @param backfill - Next-best candidates, best first
+ * @param rules - Diversity rules from the scoring config
+ * @param lockedIds - Ids that must stay selected (e.g. pinned stories)
+ * @returns Final selection (same size as the model's) and what was changed
+ */
+export function applyDiversityRules(
+  selected: RankedCandidate[],
+  backfill: RankedCandidate[],
+  rules: DiversityRules,
+  lockedIds: Set<string> = new Set()
+): DiversityResult {
+  let selection = [...selected];
+  let violations = measureViolations(selection, rules);
+
+  while (violations.total > 0) {
+    const chosenIds = new Set(
+      selection.map((candidate) => candidate.article.id)
+    );
+    let improved = false;
+
+    // First swap that reduces the violations wins: best outsider, lowest-ranked insider
+    for (const outsider of [...selected, ...backfill]) {
+      if (chosenIds.has(outsider.article.id)) {
+        continue;
+      }
+
+      for (let index = selection.length - 1; index >= 0 && !improved; index--) {
+        if (lockedIds.has(selection[index].article.id)) {
+          continue;
+        }
+
+        const swapped = [
+          ...selection.slice(0, index),
+          ...selection.slice(index + 1),
+          outsider,
+        ];
+        const swappedViolations = measureViolations(swapped, rules);
+        if (swappedViolations.total < violations.total) {
+          selection = swapped;
+          violations = swappedViolations;
+          improved = true;
+        }
+      }
+
+      if (improved) {
+        break;
+      }
+    }
+
+    if (!improved) {
+      break;
+    }
+  }
+
+  const initialIds = new Set(selected.map((candidate) => candidate.article.id));
+  const finalIds = new Set(selection.map((candidate) => candidate.article.id));
+
+  return {
+    selected: selection,
+    addedIds: Array.from(finalIds).filter((id) => !initialIds.has(id)),
+    removedIds: Array.from(initialIds).filter((id) => !finalIds.has(id)),
+    unmetRules: violations.rules,
+  };
+}
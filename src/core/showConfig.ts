@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { ScriptFormat } from '../types/types';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Show branding
+ *
+ * The show name (written and as it should be spoken), tagline, audience
+ * greeting, timezone for dates, script length target, script format and
+ * hosts, email sender and subject, and the version of each template to use. Lives in
+ * config/show.json so the show can be renamed or retargeted without code
+ * changes.
+ */
+
+const DEFAULT_SHOW_CONFIG_PATH = 'config/show.json';
+
+// Average speaking rate used to turn the word target into minutes
+const SPOKEN_WORDS_PER_MINUTE = 150;
+
+export const SCRIPT_FORMATS: ScriptFormat[] = ['monologue', 'dialogue'];
+
+export type ShowHost = {
+  name: string; // Speaker label in the transcript and the dialogue prompt
+  voice: string; // Deepgram voice model (e.g. "aura-orion-en")
+};
+
+export type ShowConfig = {
+  showName: string; // As written ("49x AI Podcast")
+  spokenShowName: string; // As it should be read aloud ("49 X AI Podcast")
+  tagline: string;
+  audienceName: string; // Used in greetings ("Good morning, 49x team!")
+  timezone: string; // IANA timezone for the dates in the script
+  targetWords: { min: number; max: number };
+  format: ScriptFormat; // Default script format (monologue when omitted)
+  hosts: ShowHost[]; // The two hosts of the dialogue format
+  email: {
+    senderName: string;
+    subject: string;
+    heading: string;
+  };
+  templates: Record<string, string>; // Template name -> version
+};
+
+// Cached config (loaded once per process)
+let cachedConfig: ShowConfig | null = null;
+
+/**
+ * Returns true for IANA timezone names the runtime knows
+ */
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates the parsed content of the show config file
+ * @param data - Parsed JSON content
+ * @returns Validated show config
+ * @throws Error listing every validation problem found
+ */
+export function validateShowConfig(data: unknown): ShowConfig {
+  const errors: string[] = [];
+  const raw =
+    data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+
+  for (const field of [
+    'showName',
+    'spokenShowName',
+    'tagline',
+    'audienceName',
+    'timezone',
+  ]) {
+    if (typeof raw[field] !== 'string' || !(raw[field] as string).trim()) {
+      errors.push(`${field} must be a non-empty string`);
+    }
+  }
+  if (
+    typeof raw.timezone === 'string' &&
+    raw.timezone.trim() &&
+    !isValidTimezone(raw.timezone)
+  ) {
+    errors.push(`timezone "${raw.timezone}" is not a known IANA timezone`);
+  }
+
+  const targetWords = raw.targetWords as Record<string, unknown> | undefined;
+  if (
+    !Number.isInteger(targetWords?.min) ||
+    !Number.isInteger(targetWords?.max) ||
+    (targetWords?.min as number) <= 0 ||
+    (targetWords?.min as number) > (targetWords?.max as number)
+  ) {
+    errors.push('targetWords must be { min, max } with 0 < min <= max');
+  }
+
+  const format = raw.format ?? 'monologue';
+  if (!SCRIPT_FORMATS.includes(format as ScriptFormat)) {
+    errors.push(`format must be one of: ${SCRIPT_FORMATS.join(', ')}`);
+  }
+
+  const hosts = raw.hosts ?? [];
+  if (
+    !Array.isArray(hosts) ||
+    !hosts.every(
+      (host) =>
+        typeof host?.name === 'string' &&
+        host.name.trim() &&
+        typeof host?.voice === 'string' &&
+        host.voice.trim()
+    )
+  ) {
+    errors.push('hosts must be an array of { name, voice }');
+  } else if (
+    hosts.length > 0 &&
+    (hosts.length !== 2 ||
+      hosts[0].name.trim().toLowerCase() === hosts[1].name.trim().toLowerCase())
+  ) {
+    errors.push('hosts must list exactly two hosts with different names');
+  } else if (format === 'dialogue' && hosts.length === 0) {
+    errors.push('hosts are required for the dialogue format');
+  }
+
+  const email = (raw.email || {}) as Record<string, unknown>;
+  for (const field of ['senderName', 'subject', 'heading']) {
+    if (typeof email[field] !== 'string' || !(email[field] as string).trim()) {
+      errors.push(`email.${field} must be a non-empty string`);
+    }
+  }
+
+  const templates = raw.templates;
+  if (
+    !templates ||
+    typeof templates !== 'object' ||
+    !Object.values(templates).every(
+      (version) => typeof version === 'string' && version.trim()
+    )
+  ) {
+    errors.push('templates must be an object of template name -> version');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid show config (${errors.length} problem(s)):\n` +
+        errors.map((error) => `  - ${error}`).join('\n')
+    );
+  }
+
+  return {
+    ...(data as ShowConfig),
+    format: format as ScriptFormat,
+    hosts: hosts as ShowHost[],
+  };
+}
+
+/**
+ * Loads and validates the show config
+ * SHOW_CONFIG_PATH can point to an alternative file (relative to the working directory)
+ */
+export function loadShowConfig(): ShowConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = path.resolve(
+    process.cwd(),
+    process.env.SHOW_CONFIG_PATH || DEFAULT_SHOW_CONFIG_PATH
+  );
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read show config at ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  cachedConfig = validateShowConfig(data);
+  return cachedConfig;
+}
+
+/**
+ * Formats a script length target ("800–1000" words, "5–7" minutes)
+ * @param targetWords - Word target (the show config's, or an episode preset's)
+ */
+export function describeLengthTarget(targetWords: ShowConfig['targetWords']): {
+  words: string;
+  minutes: string;
+} {
+  const { min, max } = targetWords;
+  return {
+    words: `${min}–${max}`,
+    minutes: `${Math.floor(min / SPOKEN_WORDS_PER_MINUTE)}–${Math.ceil(max / SPOKEN_WORDS_PER_MINUTE)}`,
+  };
+}
@@ -0,0 +1,116 @@
+import striptags from 'striptags';
+import crypto from 'crypto';
+import { Article, FeedConfig, SourceType } from '../types/types';
+import { parsePubDate } from '../utils/dateUtils';
+import { decodeHtmlEntities } from '../utils/textUtils';
+import { canonicalizeUrl } from '../utils/urlUtils';
+
+/**
+ * Source adapters
+ *
+ * A source adapter turns the payload of one kind of source (RSS/Atom feed,
+ * arXiv listing, Hacker News search, GitHub releases, ...) into the shared
+ * Article type. Fetching, conditional requests, retries and health tracking
+ * are handled once by the fetcher; adapters only describe the request and
+ * parse the response.
+ */
+export interface SourceAdapter {
+  readonly type: SourceType;
+
+  /**
+   * Extra request headers (Accept, auth, ...) for this kind of source
+   */
+  getHeaders(source: FeedConfig): Record<string, string>;
+
+  /**
+   * Parses a fetched payload into normalized articles
+   * @param body - Response body
+   * @param source - The registry entry that was fetched
+   */
+  parse(body: string, source: FeedConfig): Promise<Article[]>;
+}
+
+/**
+ * Raw fields an adapter extracts from a single item
+ */
+export type RawSourceItem = {
+  title?: string;
+  link?: string;
+  date?: string; // Any supported date format, normalized by parsePubDate
+  summary?: string; // HTML or plain text
+};
+
+/**
+ * Generates a stable deterministic ID for an article
+ * The link is canonicalized first, so tracking parameters, AMP paths and
+ * similar variants of the same URL share one id
+ * @param link - Article link
+ * @param title - Article title
+ * @param source - Article source
+ * @returns 16-character hex ID
+ */
+export function generateArticleId(
+  link: string,
+  title: string,
+  source: string
+): string {
+  // Prefer hashing the link if available
+  if (link && link.trim()) {
+    return crypto
+      .createHash('sha1')
+      .update(canonicalizeUrl(link))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  // Fallback to hashing title + source
+  const fallback = `${title}${source}`;
+  return crypto.createHash('sha1').update(fallback).digest('hex').slice(0, 16);
+}
+
+/**
+ * Cleans HTML content and converts to plain text
+ * @param htmlContent - Raw HTML content
+ * @returns Clean plain text
+ */
+export function cleanHtmlContent(htmlContent: string): string {
+  if (!htmlContent) return '';
+
+  // Strip HTML tags
+  let cleanText = striptags(htmlContent);
+
+  // Decode common HTML entities
+  cleanText = decodeHtmlEntities(cleanText);
+
+  // Clean up whitespace
+  cleanText = cleanText.replace(/\s+/g, ' ').trim();
+
+  // Limit length to reasonable size
+  if (cleanText.length > 500) {
+    cleanText = cleanText.substring(0, 500) + '...';
+  }
+
+  return cleanText;
+}
+
+/**
+ * Builds a normalized article from the raw fields of a source item
+ * @param source - The registry entry the item came from
+ * @param item - Raw item fields
+ * @returns Normalized article
+ */
+export function buildArticle(source: FeedConfig, item: RawSourceItem): Article {
+  const title = (item.title || 'Untitled').replace(/\s+/g, ' ').trim();
+  const link = (item.link || '').trim();
+
+  return {
+    id: generateArticleId(link, title, source.name),
+    feedId: source.id,
+    source: source.name,
+    title,
+    link,
+    // Normalized to ISO (UTC); undated items stay undated and are handled by the recency window
+    pubDate: parsePubDate(item.date),
+    summary: cleanHtmlContent(item.summary || ''),
+  };
+}
@@ -0,0 +1,154 @@
+import dotenv from 'dotenv';
+import { Article, RelatedSource } from '../types/types';
+import { normalizeTitleForDedup } from '../utils/textUtils';
+import { getArticleUrlKey } from '../utils/urlUtils';
+import { getFractionEnv } from '../utils/utils';
+import {
+  buildTfIdfVectors,
+  cosineSimilarity,
+  tokenize,
+  TermVector,
+} from '../utils/textSimilarity';
+import { getArticlePriority, getArticleSourceName } from './feedRegistry';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Story clustering
+ *
+ * Groups articles that report the same event, even when their titles differ
+ * ("OpenAI launches X" / "X is here, says OpenAI"). Articles are compared with
+ * TF-IDF vectors of their title and summary (titles weigh double), so this runs
+ * locally without an embeddings API. Articles with the same canonical URL or
+ * the same normalized title always end up in the same cluster.
+ *
+ * Each cluster keeps one representative (the copy from the highest-priority
+ * feed) and attaches the other articles as related sources, so the script and
+ * the email can say which other outlets reported the story.
+ */
+
+export type StoryCluster = {
+  representative: Article;
+  members: Article[]; // All articles of the cluster, representative first
+};
+
+// Only the start of the summary is used; later sentences drift off topic
+const SUMMARY_CHARS = 300;
+
+/**
+ * Returns the similarity above which two articles are considered the same story
+ */
+function getClusterThreshold(): number {
+  return getFractionEnv('STORY_CLUSTER_THRESHOLD', 0.35);
+}
+
+/**
+ * Builds the TF-IDF vectors used to compare articles
+ */
+function buildVectors(articles: Article[]): TermVector[] {
+  return buildTfIdfVectors(
+    articles.map((article) => [
+      ...tokenize(article.title),
+      ...tokenize(article.title), // Title terms count double
+      ...tokenize(article.summary.slice(0, SUMMARY_CHARS)),
+    ])
+  );
+}
+
+/**
+ * Groups articles about the same event
+ * @param articles - Candidate articles
+ * @returns Clusters, each led by its representative article
+ */
+export function clusterArticles(articles: Article[]): StoryCluster[] {
+  // Highest-priority copies first, so they become the representatives
+  const ordered = [...articles].sort(
+    (a, b) => getArticlePriority(b) - getArticlePriority(a)
+  );
+  const vectors = buildVectors(ordered);
+  const urls = ordered.map((article) => getArticleUrlKey(article));
+  const titles = ordered.map((article) =>
+    normalizeTitleForDedup(article.title)
+  );
+  const threshold = getClusterThreshold();
+
+  const clusterOf: number[] = [];
+  const clusters: number[][] = [];
+
+  ordered.forEach((_, index) => {
+    let bestCluster = -1;
+    let bestSimilarity = threshold;
+
+    for (let other = 0; other < index; other++) {
+      const similarity =
+        urls[index] === urls[other] ||
+        (titles[index] && titles[index] === titles[other])
+          ? 1
+          : cosineSimilarity(vectors[index], vectors[other]);
+
+      if (similarity >= bestSimilarity) {
+        bestSimilarity = similarity;
+        bestCluster = clusterOf[other];
+      }
+    }
+
+    if (bestCluster === -1) {
+      bestCluster = clusters.length;
+      clusters.push([]);
+    }
+    clusters[bestCluster].push(index);
+    clusterOf[index] = bestCluster;
+  });
+
+  return clusters.map((indexes) => ({
+    representative: ordered[indexes[0]],
+    members: indexes.map((index) => ordered[index]),
+  }));
+}
+
+/**
+ * Returns the names of the other outlets that reported an article's story
+ * (one entry per outlet, excluding the article's own source)
+ */
+export function getAlsoReportedBy(article: Article): string[] {
+  const ownSource = getArticleSourceName(article);
+  const sources = (article.relatedSources || [])
+    .map((related) => related.source)
+    .filter((source) => source !== ownSource);
+  return Array.from(new Set(sources));
+}
+
+/**
+ * Collapses each story into its representative article
+ * @param articles - Candidate articles
+ * @returns One article per story; other outlets are attached as relatedSources
+ */
+export function clusterStories(articles: Article[]): Article[] {
+  const clusters = clusterArticles(articles);
+
+  for (const cluster of clusters.filter(
+    (cluster) => cluster.members.length > 1
+  )) {
+    console.log(
+      `🧩 Story "${cluster.representative.title}" covered by ${cluster.members.length} articles: ` +
+        cluster.members.map((member) => getArticleSourceName(member)).join(', ')
+    );
+  }
+
+  return clusters.map((cluster) => {
+    if (cluster.members.length === 1) {
+      return cluster.representative;
+    }
+
+    const relatedSources: RelatedSource[] = cluster.members
+      .slice(1)
+      .map((member) => ({
+        id: member.id,
+        source: getArticleSourceName(member),
+        title: member.title,
+        link: member.link,
+      }));
+    return { ...cluster.representative, relatedSources };
+  });
+}
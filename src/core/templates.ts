@@ -0,0 +1,295 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { loadShowConfig } from './showConfig';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Versioned templates
+ *
+ * Prompts and email copy live in files as named, versioned templates:
+ * config/templates/<name>/<version>/<part>.txt (or .html). The show config
+ * picks the version of each template, and the versions used are recorded with
+ * every episode so output quality can be compared across prompt changes.
+ * Add a new version next to the old one instead of editing it in place.
+ *
+ * Syntax: {{variable}} inserts a value; {{#variable}}...{{/variable}} keeps the
+ * enclosed text only when the variable is not empty. Templates may only use
+ * the variables declared for them below, which is checked at startup.
+ */
+
+const DEFAULT_TEMPLATES_DIR = 'config/templates';
+
+export type TemplateName =
+  | 'podcast-script'
+  | 'podcast-dialogue'
+  | 'email-intro';
+
+type TemplateDefinition = {
+  parts: string[]; // Required part files (without extension)
+  variables: string[]; // Variables the parts may use
+};
+
+const TEMPLATE_DEFINITIONS: Record<TemplateName, TemplateDefinition> = {
+  'podcast-script': {
+    parts: ['system', 'user'],
+    variables: [
+      'showName',
+      'spokenShowName',
+      'tagline',
+      'date',
+      'audience',
+      'tone',
+      'targetWords',
+      'targetMinutes',
+      'articles',
+      'headlines',
+      'deepDive',
+    ],
+  },
+  'podcast-dialogue': {
+    parts: ['system', 'user'],
+    variables: [
+      'showName',
+      'spokenShowName',
+      'tagline',
+      'date',
+      'audience',
+      'tone',
+      'targetWords',
+      'targetMinutes',
+      'articles',
+      'firstHost',
+      'secondHost',
+      'headlines',
+      'deepDive',
+    ],
+  },
+  'email-intro': {
+    parts: ['intro'],
+    variables: ['showName', 'audienceName', 'date'],
+  },
+};
+
+export const TEMPLATE_NAMES = Object.keys(
+  TEMPLATE_DEFINITIONS
+) as TemplateName[];
+
+const PART_EXTENSIONS = ['.txt', '.html'];
+
+const VARIABLE_PATTERN = /\{\{\s*([#/]?)(\w+)\s*\}\}/g;
+
+export type Template = {
+  name: TemplateName;
+  version: string;
+  parts: Record<string, string>;
+};
+
+// Loaded templates by "name@version"
+const templateCache = new Map<string, Template>();
+
+/**
+ * Returns the absolute path of the templates directory
+ * TEMPLATES_DIR can point to an alternative directory (relative to the working directory)
+ */
+function getTemplatesDir(): string {
+  return path.resolve(
+    process.cwd(),
+    process.env.TEMPLATES_DIR || DEFAULT_TEMPLATES_DIR
+  );
+}
+
+/**
+ * Returns "name@version", the form used in logs and episode records
+ */
+export function describeTemplate(template: Template): string {
+  return `${template.name}@${template.version}`;
+}
+
+/**
+ * Validates the parts of a template
+ * @param name - Template name
+ * @param version - Template version
+ * @param parts - Part name -> text
+ * @returns Validated template
+ * @throws Error listing every validation problem found
+ */
+export function validateTemplate(
+  name: TemplateName,
+  version: string,
+  parts: Record<string, string>
+): Template {
+  const definition = TEMPLATE_DEFINITIONS[name];
+  const errors: string[] = [];
+
+  for (const part of definition.parts) {
+    const text = parts[part];
+    if (text === undefined || !text.trim()) {
+      errors.push(`part "${part}" is missing or empty`);
+      continue;
+    }
+
+    const openSections: string[] = [];
+    for (const [, marker, variable] of text.matchAll(VARIABLE_PATTERN)) {
+      if (!definition.variables.includes(variable)) {
+        errors.push(
+          `${part}: unknown variable "${variable}" (available: ${definition.variables.join(', ')})`
+        );
+      }
+      if (marker === '#') {
+        openSections.push(variable);
+      } else if (marker === '/' && openSections.pop() !== variable) {
+        errors.push(`${part}: {{/${variable}}} does not close an open section`);
+      }
+    }
+    if (openSections.length > 0) {
+      errors.push(`${part}: unclosed section(s) ${openSections.join(', ')}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid template ${name}@${version} (${errors.length} problem(s)):\n` +
+        errors.map((error) => `  - ${error}`).join('\n')
+    );
+  }
+
+  return { name, version, parts };
+}
+
+/**
+ * Loads and validates a template version
+ * @throws Error when the template is unknown, missing or invalid
+ */
+export function loadTemplate(name: TemplateName, version: string): Template {
+  const key = `${name}@${version}`;
+  const cached = templateCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  if (!TEMPLATE_DEFINITIONS[name]) {
+    throw new Error(
+      `Unknown template "${name}". Expected one of: ${TEMPLATE_NAMES.join(', ')}`
+    );
+  }
+
+  const directory = path.join(getTemplatesDir(), name, version);
+  if (!fs.existsSync(directory)) {
+    throw new Error(`Template ${key} not found (expected ${directory})`);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const fileName of fs.readdirSync(directory)) {
+    const extension = path.extname(fileName);
+    if (PART_EXTENSIONS.includes(extension)) {
+      parts[path.basename(fileName, extension)] = fs
+        .readFileSync(path.join(directory, fileName), 'utf8')
+        .trimEnd();
+    }
+  }
+
+  const template = validateTemplate(name, version, parts);
+  templateCache.set(key, template);
+  return template;
+}
+
+/**
+ * Returns the template version selected in the show config
+ * @param overrides - Template versions that take precedence (an episode preset's prompt variant)
+ */
+export function getActiveTemplate(
+  name: TemplateName,
+  overrides: Record<string, string> = {}
+): Template {
+  const version = overrides[name] || loadShowConfig().templates[name];
+  if (!version) {
+    throw new Error(
+      `No version selected for template "${name}" in the show config (templates.${name})`
+    );
+  }
+  return loadTemplate(name, version);
+}
+
+/**
+ * Loads every active template (used at startup to surface mistakes early)
+ * @param overrides - Template versions that take precedence (an episode preset's prompt variant)
+ * @returns The active templates
+ * @throws Error listing the problems of every broken template
+ */
+export function loadActiveTemplates(
+  overrides: Record<string, string> = {}
+): Template[] {
+  const templates: Template[] = [];
+  const errors: string[] = [];
+
+  for (const name of TEMPLATE_NAMES) {
+    try {
+      templates.push(getActiveTemplate(name, overrides));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const unknown = Object.keys(loadShowConfig().templates).filter(
+    (name) => !TEMPLATE_NAMES.includes(name as TemplateName)
+  );
+  if (unknown.length > 0) {
+    errors.push(
+      `Unknown template(s) in the show config: ${unknown.join(', ')}`
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return templates;
+}
+
+/**
+ * Returns the active version of templates, for episode records
+ * @param names - Templates an episode used (defaults to all)
+ * @param overrides - Template versions that take precedence (an episode preset's prompt variant)
+ */
+export function getActiveTemplateVersions(
+  names: TemplateName[] = TEMPLATE_NAMES,
+  overrides: Record<string, string> = {}
+): Record<string, string> {
+  return Object.fromEntries(
+    names.map((name) => [name, getActiveTemplate(name, overrides).version])
+  );
+}
+
+/**
+ * Renders one part of a template
+ * @param template - Loaded template
+ * @param part - Part name (e.g. "user")
+ * @param variables - Values for the template's variables (missing or empty ones drop their sections)
+ * @returns Rendered text
+ */
+export function renderTemplate(
+  template: Template,
+  part: string,
+  variables: Record<string, string | undefined>
+): string {
+  const text = template.parts[part];
+  if (text === undefined) {
+    throw new Error(
+      `Template ${describeTemplate(template)} has no part "${part}"`
+    );
+  }
+
+  // Sections first; a newline right after each tag goes with it, so a
+  // section on its own lines leaves no blank line behind when dropped
+  const withSections = text.replace(
+    /\{\{\s*#(\w+)\s*\}\}\n?([\s\S]*?)\{\{\s*\/\1\s*\}\}\n?/g,
+    (_, variable: string, body: string) => (variables[variable] ? body : '')
+  );
+
+  // Values are inserted in a single pass, so text in them is never expanded
+  return withSections.replace(VARIABLE_PATTERN, (_, marker, variable) =>
+    marker ? '' : variables[variable] || ''
+  );
+}
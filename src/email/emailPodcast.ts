@@ -1,11 +1,21 @@
 import nodemailer, { Transporter } from 'nodemailer';
 import dotenv from 'dotenv';
-import { fetchAllFeeds } from '../core/rssFetcher';
-import { generatePodcastScriptFromSelected } from '../ai/podcastGenerator';
-import { selectTopArticles, buildBulletHtmlFromSelected } from '../core/selectArticles';
+import { fetchArticles, FETCH_PRESETS } from '../core/fetchPlanner';
+import { extractArticleContent } from '../core/contentExtractor';
+import { getInterestProfile } from '../core/interestProfiles';
+import { getEpisodePreset, getScheduledPreset } from '../core/episodePresets';
+import { recordEpisode } from '../core/articleStore';
+import { loadShowConfig } from '../core/showConfig';
+import { getActiveTemplate, getActiveTemplateVersions, renderTemplate } from '../core/templates';
+import { generatePodcastScriptFromSelected, getScriptTemplateName } from '../ai/podcastGenerator';
+import { countWords, summarizeValidation } from '../ai/scriptValidator';
+import { groundPodcastScript, summarizeGrounding, describeGroundingChanges, buildCitationHtml } from '../ai/factGrounding';
+import { getLlmProviderLabel } from '../ai/llmProvider';
+import { selectTopArticles, buildCategorizedBulletHtml } from '../core/selectArticles';
 import { synthesizePodcast, getMP3Duration, formatDuration } from '../audio/tts';
-import { logProcessStart, logSuccess, logError, logInfo, logNewsCollection, logPodcastGeneration, logAudioSynthesis, logEmailSent } from '../utils/logger';
-import { Article } from '../types/types';
+import { startRunCostTracking, finishRunCostTracking, formatRunCosts, BudgetExceededError } from '../core/runCosts';
+import { logProcessStart, logSuccess, logError, logInfo, logNewsCollection, logFeedFetchSummary, logFeedHealthReport, logPodcastGeneration, logFactCheck, logAudioSynthesis, logEmailSent } from '../utils/logger';
+import { Article, EpisodePreset, GroundingReport, SelectionRationale } from '../types/types';
 
 // Load environment variables
 dotenv.config();
@@ -73,22 +83,33 @@ export function getEmailRecipients(): string[] {
 
 /**
  * Generates HTML email content with selected articles
+ * The heading and footer come from the show config, the greeting from the active "email-intro" template.
  * @param selectedArticles - Array of articles that were selected for the podcast
  * @param scriptLength - Length of the generated script
  * @param actualDuration - Actual duration of the MP3 file in seconds
+ * @param rationales - Selection rationales; the news list is grouped by their category
+ * @param grounding - Optional fact check result; adds the sources of each sentence
+ * @param preset - Optional episode preset (shown as the episode format; its template versions apply)
  * @returns HTML email content
  */
-export function generateEmailContent(selectedArticles: Article[], scriptLength: number, actualDuration: number): string {
-  const bulletpointHtml = buildBulletHtmlFromSelected(selectedArticles, selectedArticles.length);
+export function generateEmailContent(selectedArticles: Article[], scriptLength: number, actualDuration: number, rationales: SelectionRationale[] = [], grounding?: GroundingReport, preset?: EpisodePreset): string {
+  const bulletpointHtml = buildCategorizedBulletHtml(selectedArticles, rationales);
+  const citationHtml = buildCitationHtml(grounding, selectedArticles);
+  const show = loadShowConfig();
+  const intro = renderTemplate(getActiveTemplate('email-intro', preset?.templates), 'intro', {
+    showName: show.showName,
+    audienceName: show.audienceName,
+    date: new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: show.timezone }),
+  });
 
   return `
     <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
       <h2 style="color: #333; border-bottom: 2px solid #007acc; padding-bottom: 10px;">
-        🎙️ Daily AI News Podcast
+        🎙️ ${show.email.heading}
       </h2>
       
       <p style="font-size: 16px; line-height: 1.6; color: #555;">
-        Good morning, 49x team! Here's your daily dose of AI and technology news, curated and transformed into an engaging podcast format to keep you updated on the latest developments in AI coding and technology.
+        ${intro}
       </p>
       
       <h3 style="color: #333; margin-top: 30px;">📰 Today's Top News:</h3>
@@ -97,6 +118,7 @@ export function generateEmailContent(selectedArticles: Article[], scriptLength:
       <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 30px 0;">
         <h3 style="color: #333; margin-top: 0;">🎧 Your Podcast is Ready!</h3>
         <p style="margin-bottom: 10px; color: #555;">
+          ${preset ? `<strong>🗂️ Format:</strong> ${preset.name}<br>` : ''}
           <strong>📝 Script Length:</strong> ${scriptLength} characters<br>
           <strong>⏱️ Listen Duration:</strong> ${formatDuration(actualDuration)}
         </p>
@@ -105,9 +127,10 @@ export function generateEmailContent(selectedArticles: Article[], scriptLength:
           generated using AI-powered text-to-speech technology.
         </p>
       </div>
+      ${citationHtml}
       
       <div style="border-top: 1px solid #eee; padding-top: 20px; margin-top: 30px; text-align: center; color: #888; font-size: 12px;">
-        <p>Generated by Daily AI News • Powered by OpenAI & Deepgram</p>
+        <p>Generated by ${show.email.senderName} • Powered by ${getLlmProviderLabel()} & Deepgram</p>
         <p>📅 ${new Date().toLocaleDateString('en-US', { 
           weekday: 'long', 
           year: 'numeric', 
@@ -122,8 +145,10 @@ export function generateEmailContent(selectedArticles: Article[], scriptLength:
 /**
  * Sends a daily AI podcast email with attachments using two-pass pipeline
  * @param recipients - Optional array of email addresses to send to (defaults to EMAIL_RECIPIENTS from .env)
+ * @param profileId - Optional interest profile id (defaults to INTEREST_PROFILE / the configured default)
+ * @param presetId - Optional episode preset id (defaults to the preset scheduled for today's weekday)
  */
-export async function sendDailyPodcastEmail(recipients?: string[]): Promise<void> {
+export async function sendDailyPodcastEmail(recipients?: string[], profileId?: string, presetId?: string): Promise<void> {
   console.log('📧 Starting daily AI podcast email generation...\n');
   await logProcessStart('Daily AI podcast email generation');
 
@@ -131,28 +156,57 @@ export async function sendDailyPodcastEmail(recipients?: string[]): Promise<void
   const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
 
   try {
+    startRunCostTracking(`daily-${new Date().toISOString()}`);
+
+    const profile = getInterestProfile(profileId);
+    console.log(`🎯 Interest profile: ${profile.name} (${profile.id})`);
+    const preset = presetId ? getEpisodePreset(presetId) : getScheduledPreset();
+    console.log(`🗂️ Episode preset: ${preset.name} (${preset.id}, ${preset.maxArticles} articles, ${preset.structure})\n`);
+
     // PASS A: Article Selection
     console.log('📡 Step 1: Fetching RSS feeds...');
-    const allArticles = await fetchAllFeeds();
-    console.log(`✅ Fetched ${allArticles.length} articles from RSS feeds\n`);
-    await logNewsCollection(allArticles.length, 12); // Assuming 12 RSS sources
+    const { articles: allArticles, results: feedResults, quarantined, fetchedCount, plannedFeeds } = await fetchArticles({ ...FETCH_PRESETS.daily, episodeId: timestamp });
+    console.log(`✅ Fetched ${fetchedCount} articles, ${allArticles.length} planned for selection\n`);
+    await logNewsCollection(fetchedCount, plannedFeeds.length);
+    await logFeedFetchSummary(
+      feedResults.filter(result => result.status === 'fetched').map(result => result.feedName),
+      feedResults.filter(result => result.status === 'not-modified').map(result => result.feedName),
+      feedResults.filter(result => result.status === 'failed').map(result => `${result.feedName} (${result.error}, ${result.attempts} attempt(s))`)
+    );
+    await logFeedHealthReport(
+      quarantined.map(record => ({
+        name: record.feedName,
+        reason: record.quarantine?.reason || 'Unknown',
+        since: record.quarantine?.since || new Date().toISOString(),
+        retryAt: record.quarantine?.retryAt || new Date().toISOString(),
+      }))
+    );
 
     console.log('🔍 Step 2: Selecting top AI articles...');
-    const { selectedIds } = await selectTopArticles(allArticles, { maxCount: 10 });
-    const selectedArticles = allArticles.filter(article => selectedIds.includes(article.id));
-    console.log(`✅ Selected ${selectedArticles.length} articles for podcast\n`);
+    const { selectedIds, articles: selectedStories, rationales } = await selectTopArticles(allArticles, { profile, maxCount: preset.maxArticles, episodeId: timestamp });
+    console.log(`✅ Selected ${selectedIds.length} articles for podcast\n`);
+
+    // Download the full text of the selected articles for a richer script
+    const selectedArticles = await extractArticleContent(selectedStories);
     await logInfo(`Selected ${selectedArticles.length} articles from ${allArticles.length} total articles`);
 
     // PASS B: Podcast Generation
     console.log('🤖 Step 3: Generating podcast script from selected articles...');
-    const script = await generatePodcastScriptFromSelected(selectedArticles);
-    console.log(`✅ Generated script: ${script.length} characters\n`);
-    const wordCount = script.split(' ').length;
-    await logPodcastGeneration(script.length, wordCount);
+    const generated = await generatePodcastScriptFromSelected(selectedArticles, undefined, profile, undefined, preset);
+
+    // Tie the script's claims to the articles; unsupported sentences are rewritten or flagged
+    console.log('🔎 Step 3b: Fact-checking the script against the articles...');
+    const script = await groundPodcastScript(generated, selectedArticles);
+    console.log(`✅ Generated ${script.format} script: ${script.text.length} characters\n`);
+    const wordCount = countWords(script.text);
+    await logPodcastGeneration(script.text.length, wordCount, script.template, { summary: summarizeValidation(script.validation), passed: script.validation.passed });
+    if (script.grounding) {
+      await logFactCheck(summarizeGrounding(script.grounding), describeGroundingChanges(script.grounding));
+    }
 
     // Step 4: Generate audio file in memory
     console.log('🎤 Step 4: Converting script to speech...');
-    const audioBuffer = await synthesizePodcast(script);
+    const audioBuffer = await synthesizePodcast(script.format === 'dialogue' ? script.turns : script.text);
     console.log(`✅ Generated audio buffer: ${audioBuffer.length} bytes\n`);
 
     // Step 5: Get actual MP3 duration
@@ -166,7 +220,7 @@ export async function sendDailyPodcastEmail(recipients?: string[]): Promise<void
     } catch (error) {
       console.log('⚠️ Could not get actual duration, using estimation...');
       // Fallback to estimation
-      actualDuration = Math.round(script.length / 2.5);
+      actualDuration = Math.round(script.text.length / 2.5);
       fileSize = `${(audioBuffer.length / 1024).toFixed(0)} KB`;
       console.log(`📊 Estimated duration: ${formatDuration(actualDuration)}\n`);
     }
@@ -179,7 +233,7 @@ export async function sendDailyPodcastEmail(recipients?: string[]): Promise<void
 
     // Step 7: Prepare email content with selected articles
     console.log('📧 Step 6: Preparing email content...');
-    const htmlContent = generateEmailContent(selectedArticles, script.length, actualDuration);
+    const htmlContent = generateEmailContent(selectedArticles, script.text.length, actualDuration, rationales, script.grounding, preset);
 
     // Step 8: Determine recipients
     const emailRecipients = recipients || getEmailRecipients();
@@ -188,6 +242,7 @@ export async function sendDailyPodcastEmail(recipients?: string[]): Promise<void
     // Step 9: Send email
     console.log('📤 Step 7: Sending email...');
     const transporter = createTransporter();
+    const show = loadShowConfig();
 
     // Verify connection configuration
     await transporter.verify();
@@ -195,15 +250,15 @@ export async function sendDailyPodcastEmail(recipients?: string[]): Promise<void
 
     // Send email with in-memory attachments
     const info = await transporter.sendMail({
-      from: `"Daily AI News" <${process.env.EMAIL_USER}>`,
+      from: `"${show.email.senderName}" <${process.env.EMAIL_USER}>`,
       to: emailRecipients[0], // Primary recipient
       bcc: emailRecipients.slice(1), // BCC for additional recipients
-      subject: 'Daily AI News Podcast',
+      subject: show.email.subject,
       html: htmlContent,
       attachments: [
         {
           filename: `podcast_${timestamp}.txt`,
-          content: script,
+          content: script.text, // Transcript with speaker labels for dialogues
           contentType: 'text/plain',
         },
         {
@@ -217,7 +272,14 @@ export async function sendDailyPodcastEmail(recipients?: string[]): Promise<void
     console.log('✅ Daily AI podcast email sent successfully!');
     console.log('📧 Message ID:', info.messageId);
     console.log('📬 Preview URL:', nodemailer.getTestMessageUrl(info));
-    await logEmailSent(emailRecipients.length, info.messageId || 'Unknown');
+    // Report the run's cost totals with the completion embed
+    const runCosts = finishRunCostTracking('completed');
+    await logEmailSent(emailRecipients.length, info.messageId || 'Unknown', runCosts ? formatRunCosts(runCosts) : undefined);
+
+    // Remember which stories this episode used so later episodes skip them,
+    // which template versions produced it for comparing prompt changes, and
+    // which articles back each sentence
+    recordEpisode(timestamp, selectedArticles, getActiveTemplateVersions([getScriptTemplateName(script.format), 'email-intro'], preset.templates), script.grounding?.citations);
 
     // No cleanup needed since we're using in-memory attachments
 
@@ -226,15 +288,20 @@ export async function sendDailyPodcastEmail(recipients?: string[]): Promise<void
     
     // Log error to Discord with user mention
     const errorMessage = error instanceof Error ? error.message : String(error);
-    await logError(`Failed to send daily podcast email: ${errorMessage}`);
+    const runCosts = finishRunCostTracking(error instanceof BudgetExceededError ? 'over-budget' : 'failed');
+    await logError(`Failed to send daily podcast email: ${errorMessage}`, runCosts ? formatRunCosts(runCosts) : undefined);
     
     if (error instanceof Error) {
       if (error.message.includes('EMAIL_USER') || error.message.includes('EMAIL_PASS')) {
         console.log('\n💡 Tip: Make sure to add your email credentials to the .env file');
       } else if (error.message.includes('OPENAI_API_KEY')) {
         console.log('\n💡 Tip: Make sure to add your OpenAI API key to the .env file');
+      } else if (error.message.includes('LLM_PROVIDER')) {
+        console.log('\n💡 Tip: Make sure to add the settings of your LLM provider (LLM_PROVIDER) to the .env file');
       } else if (error.message.includes('DEEPGRAM_API_KEY')) {
         console.log('\n💡 Tip: Make sure to add your Deepgram API key to the .env file');
+      } else if (error instanceof BudgetExceededError) {
+        console.log('\n💡 Tip: Check the run costs above, or raise maxCostPerRun / maxCostPerDay in config/pricing.json');
       }
     }
     
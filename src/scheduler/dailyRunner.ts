@@ -2,6 +2,16 @@ import cron from 'node-cron';
 import dotenv from 'dotenv';
 import { sendDailyPodcastEmail } from '../email/emailPodcast';
 import { logProcessStart, logSuccess, logError, initializeDiscordLogger } from '../utils/logger';
+import { loadFeedRegistry } from '../core/feedRegistry';
+import { loadScoringConfig } from '../core/articleScoring';
+import { loadKeywordConfig } from '../core/keywordClassifier';
+import { loadPricingConfig, formatCost } from '../core/runCosts';
+import { loadShowConfig } from '../core/showConfig';
+import { loadActiveTemplates, describeTemplate } from '../core/templates';
+import { getInterestProfile } from '../core/interestProfiles';
+import { loadPresetsConfig, describePresetSchedule } from '../core/episodePresets';
+import { getLlmProviderType, getMissingLlmConfig } from '../ai/llmProvider';
+import { getFactCheckMode } from '../ai/factGrounding';
 
 // Load environment variables
 dotenv.config();
@@ -29,9 +39,15 @@ initializeDiscordLogger().then(() => {
   logProcessStart('Daily AI News Podcast Scheduler started');
 });
 
-// Validate required environment variables
-const requiredVars = ['EMAIL_USER', 'EMAIL_PASS', 'OPENAI_API_KEY', 'DEEPGRAM_API_KEY'];
-const missingVars = requiredVars.filter(varName => !process.env[varName]);
+// Validate required environment variables (plus those of the LLM provider, e.g. OPENAI_API_KEY)
+const requiredVars = ['EMAIL_USER', 'EMAIL_PASS', 'DEEPGRAM_API_KEY'];
+let missingVars: string[];
+try {
+  missingVars = [...requiredVars.filter(varName => !process.env[varName]), ...getMissingLlmConfig()];
+} catch (error) {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
 
 if (missingVars.length > 0) {
   console.error('❌ Missing required environment variables:', missingVars.join(', '));
@@ -39,7 +55,31 @@ if (missingVars.length > 0) {
   process.exit(1);
 }
 
-console.log('✅ Environment variables validated');
+console.log(`✅ Environment variables validated (LLM provider: ${getLlmProviderType()})`);
+
+// Validate the feed registry, scoring, keyword, pricing and show configs, templates, episode presets, the fact check mode and interest profiles so config mistakes surface at startup, not at 6:30
+try {
+  const feeds = loadFeedRegistry();
+  console.log(`✅ Feed registry loaded (${feeds.filter(feed => feed.enabled).length}/${feeds.length} feeds enabled)`);
+  const scoring = loadScoringConfig();
+  console.log(`✅ Scoring config loaded (${scoring.topics.length} topics, top ${scoring.maxCandidates} stories go to the selector)`);
+  const keywords = loadKeywordConfig();
+  console.log(`✅ Keyword config loaded (${Object.keys(keywords.keywords).length} keywords, ${keywords.negativeKeywords.length} blocked)`);
+  const pricing = loadPricingConfig();
+  console.log(`✅ Pricing config loaded (budget: ${pricing.maxCostPerRun !== undefined ? formatCost(pricing.maxCostPerRun) : 'none'} per run, ${pricing.maxCostPerDay !== undefined ? formatCost(pricing.maxCostPerDay) : 'none'} per day)`);
+  const show = loadShowConfig();
+  const templates = loadActiveTemplates();
+  console.log(`✅ Show config loaded (${show.showName}, ${show.format}, templates: ${templates.map(describeTemplate).join(', ')})`);
+  const presets = loadPresetsConfig();
+  presets.presets.forEach(preset => loadActiveTemplates(preset.templates));
+  console.log(`✅ Episode presets loaded (${presets.presets.map(preset => preset.id).join(', ')}; ${describePresetSchedule()})`);
+  console.log(`✅ Fact check mode: ${getFactCheckMode()}`);
+  const profile = getInterestProfile();
+  console.log(`✅ Interest profiles loaded (default: ${profile.name})`);
+} catch (error) {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
 console.log('');
 
 // Define the cron job
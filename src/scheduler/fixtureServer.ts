@@ -0,0 +1,123 @@
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Fixture Server for Source Adapters
+ *
+ * Serves the recorded payloads in fixtures/sources over HTTP (with ETag support,
+ * so conditional requests answer 304 on repeat fetches). Point the fetcher at
+ * them with FEEDS_CONFIG_PATH=fixtures/feeds.fixtures.json.
+ *
+ * With --fetch, it also runs the full fetcher against the fixtures once, using a
+ * throwaway state directory, prints what each adapter produced and exits.
+ */
+
+const FIXTURE_PORT = 4010;
+const FIXTURE_DIR = path.resolve(__dirname, '../../fixtures/sources');
+const FIXTURE_FEEDS_CONFIG = path.resolve(
+  __dirname,
+  '../../fixtures/feeds.fixtures.json'
+);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.xml': 'application/xml; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+};
+
+/**
+ * Starts the fixture HTTP server
+ */
+function startFixtureServer(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const fileName = path.basename(
+      decodeURIComponent((req.url || '/').split('?')[0])
+    );
+    const filePath = path.join(FIXTURE_DIR, fileName);
+
+    if (!fileName || !fs.existsSync(filePath)) {
+      res.writeHead(404);
+      res.end('Not found');
+      return;
+    }
+
+    const body = fs.readFileSync(filePath);
+    const etag = `"${crypto.createHash('sha1').update(body).digest('hex').slice(0, 16)}"`;
+
+    if (req.headers['if-none-match'] === etag) {
+      res.writeHead(304, { ETag: etag });
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type':
+        CONTENT_TYPES[path.extname(fileName)] || 'application/octet-stream',
+      ETag: etag,
+    });
+    res.end(body);
+  });
+
+  return new Promise((resolve) => {
+    server.listen(FIXTURE_PORT, '127.0.0.1', () => resolve(server));
+  });
+}
+
+/**
+ * Fetches all fixture sources once and prints the normalized articles
+ */
+async function fetchFixtures(): Promise<void> {
+  // Configure the fetcher before it is loaded
+  process.env.FEEDS_CONFIG_PATH = FIXTURE_FEEDS_CONFIG;
+  process.env.STATE_DIR = fs.mkdtempSync(
+    path.join(os.tmpdir(), 'daily-ai-news-fixtures-')
+  );
+
+  const { fetchArticles } = await import('../core/fetchPlanner');
+  const report = await fetchArticles({
+    label: 'fixtures',
+    recencyWindow: false,
+  });
+
+  console.log('\n📦 Articles per fixture source:');
+  for (const result of report.results) {
+    console.log(
+      `\n[${result.feedName}] ${result.status}, ${result.articles.length} article(s)`
+    );
+    for (const article of result.articles) {
+      console.log(`   - ${article.title}`);
+      console.log(`     ${article.link} • ${article.pubDate || 'undated'}`);
+    }
+  }
+}
+
+if (require.main === module) {
+  const fetchOnce = process.argv.includes('--fetch');
+
+  startFixtureServer()
+    .then(async (server) => {
+      console.log(
+        `🧪 Serving fixtures from ${FIXTURE_DIR} on http://127.0.0.1:${FIXTURE_PORT}`
+      );
+
+      if (!fetchOnce) {
+        console.log(
+          `💡 Run the pipeline with FEEDS_CONFIG_PATH=${path.relative(process.cwd(), FIXTURE_FEEDS_CONFIG)}`
+        );
+        return;
+      }
+
+      try {
+        await fetchFixtures();
+      } finally {
+        server.close();
+      }
+    })
+    .catch((error) => {
+      console.error('💥 Fixture server failed:', error);
+      process.exit(1);
+    });
+}
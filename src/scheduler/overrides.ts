@@ -0,0 +1,122 @@
+import {
+  EditorialOverride,
+  OVERRIDE_TYPES,
+  OverrideType,
+  isExpired,
+  loadOverrides,
+  saveOverrides,
+} from '../core/editorialOverrides';
+
+/**
+ * Editorial override command line
+ *
+ * Usage:
+ *   npm run overrides                                     List overrides
+ *   npm run overrides -- add <type> <value> [--expires=<date>] [--note=<text>]
+ *   npm run overrides -- remove <number>                  Remove an override
+ *   npm run overrides -- prune                            Remove expired overrides
+ *
+ * Types: pin, block (article URL or id), block-source (feed id or source
+ * name), block-keyword (word or phrase).
+ */
+
+const USAGE = `Usage:
+  npm run overrides
+  npm run overrides -- add <${OVERRIDE_TYPES.join('|')}> <value> [--expires=<date>] [--note=<text>]
+  npm run overrides -- remove <number>
+  npm run overrides -- prune`;
+
+/**
+ * Prints the overrides with their list numbers
+ */
+function listOverrides(overrides: EditorialOverride[]): void {
+  if (overrides.length === 0) {
+    console.log('📋 No editorial overrides');
+    return;
+  }
+
+  const now = new Date();
+  console.log(`📋 ${overrides.length} editorial override(s):`);
+  overrides.forEach((override, index) => {
+    const expiry = override.expiresAt
+      ? `${isExpired(override, now) ? 'expired' : 'expires'} ${override.expiresAt}`
+      : 'no expiry';
+    const note = override.note ? ` - ${override.note}` : '';
+    console.log(
+      `  ${index + 1}. ${override.type} "${override.value}" (${expiry})${note}`
+    );
+  });
+}
+
+/**
+ * Returns the value of a --name=value option
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const arg = args.find((entry) => entry.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const [command, ...rest] = args.filter((arg) => !arg.startsWith('--'));
+  const overrides = loadOverrides();
+
+  switch (command) {
+    case undefined:
+    case 'list':
+      listOverrides(overrides);
+      return;
+
+    case 'add': {
+      const [type, value] = rest;
+      if (!OVERRIDE_TYPES.includes(type as OverrideType) || !value) {
+        throw new Error(USAGE);
+      }
+
+      const override: EditorialOverride = {
+        type: type as OverrideType,
+        value,
+        expiresAt: getOption(args, 'expires'),
+        note: getOption(args, 'note'),
+        createdAt: new Date().toISOString(),
+      };
+      saveOverrides([...overrides, override]);
+      console.log(`✅ Added ${override.type} "${override.value}"`);
+      return;
+    }
+
+    case 'remove': {
+      const index = parseInt(rest[0] || '', 10) - 1;
+      if (Number.isNaN(index) || !overrides[index]) {
+        throw new Error(`No override number ${rest[0]}\n\n${USAGE}`);
+      }
+
+      const [removed] = overrides.splice(index, 1);
+      saveOverrides(overrides);
+      console.log(`🗑️ Removed ${removed.type} "${removed.value}"`);
+      return;
+    }
+
+    case 'prune': {
+      const now = new Date();
+      const active = overrides.filter((override) => !isExpired(override, now));
+      saveOverrides(active);
+      console.log(
+        `🧹 Removed ${overrides.length - active.length} expired override(s)`
+      );
+      return;
+    }
+
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
@@ -7,15 +7,27 @@ async function testDailyPodcastEmail(): Promise<void> {
   console.log('📧 Testing Daily AI Podcast Email...\n');
 
   try {
-    // Check if custom recipients are provided via command line
-    const customRecipients = process.argv.slice(2);
+    // Check if custom recipients (and an optional --profile=<id> / --preset=<id>) are provided via command line
+    const args = process.argv.slice(2);
+    const profileArg = args.find(arg => arg.startsWith('--profile='));
+    const profileId = profileArg ? profileArg.slice('--profile='.length) : undefined;
+    const presetArg = args.find(arg => arg.startsWith('--preset='));
+    const presetId = presetArg ? presetArg.slice('--preset='.length) : undefined;
+    const customRecipients = args.filter(arg => !arg.startsWith('--'));
+
+    if (profileId) {
+      console.log(`🎯 Using interest profile: ${profileId}`);
+    }
+    if (presetId) {
+      console.log(`🗂️ Using episode preset: ${presetId}`);
+    }
     
     if (customRecipients.length > 0) {
       console.log(`📧 Using custom recipients: ${customRecipients.join(', ')}`);
-      await sendDailyPodcastEmail(customRecipients);
+      await sendDailyPodcastEmail(customRecipients, profileId, presetId);
     } else {
       console.log('📧 Using recipients from .env file');
-      await sendDailyPodcastEmail();
+      await sendDailyPodcastEmail(undefined, profileId, presetId);
     }
 
     console.log('\n🎉 Daily AI podcast email sent successfully!');
@@ -32,6 +44,9 @@ async function testDailyPodcastEmail(): Promise<void> {
       } else if (error.message.includes('OPENAI_API_KEY')) {
         console.log('\n💡 Tip: Make sure to add your OpenAI API key to the .env file');
         console.log('   Get your API key from: https://platform.openai.com/api-keys');
+      } else if (error.message.includes('LLM_PROVIDER')) {
+        console.log('\n💡 Tip: Make sure to add the settings of your LLM provider (LLM_PROVIDER) to the .env file');
+        console.log('   See the "LLM Providers" section of the README for the required variables');
       } else if (error.message.includes('DEEPGRAM_API_KEY')) {
         console.log('\n💡 Tip: Make sure to add your Deepgram API key to the .env file');
         console.log('   Get your API key from: https://console.deepgram.com/');
@@ -1,11 +1,17 @@
 import dotenv from 'dotenv';
-import { fetchAllFeedsLimited } from '../core/rssFetcher';
+import { fetchArticles, FETCH_PRESETS } from '../core/fetchPlanner';
+import { extractArticleContent } from '../core/contentExtractor';
+import { getInterestProfile } from '../core/interestProfiles';
+import { getEpisodePreset, getScheduledPreset } from '../core/episodePresets';
 import { generatePodcastScriptFromSelected } from '../ai/podcastGenerator';
+import { countWords, summarizeValidation } from '../ai/scriptValidator';
+import { groundPodcastScript, summarizeGrounding, describeGroundingChanges } from '../ai/factGrounding';
 import { selectTopArticles, buildBulletHtmlFromSelected } from '../core/selectArticles';
 import { synthesizePodcast, getMP3Duration, formatDuration } from '../audio/tts';
 import { createTransporter, getEmailRecipients, generateEmailContent } from '../email/emailPodcast';
-import { logProcessStart, logSuccess, logError, logInfo, logNewsCollection, logPodcastGeneration, logAudioSynthesis, logEmailSent } from '../utils/logger';
-import { Article } from '../types/types';
+import { loadShowConfig } from '../core/showConfig';
+import { startRunCostTracking, finishRunCostTracking, formatRunCosts, BudgetExceededError } from '../core/runCosts';
+import { logProcessStart, logSuccess, logError, logInfo, logNewsCollection, logFeedFetchSummary, logFeedHealthReport, logPodcastGeneration, logFactCheck, logAudioSynthesis, logEmailSent } from '../utils/logger';
 
 // Load environment variables
 dotenv.config();
@@ -18,7 +24,7 @@ dotenv.config();
  */
 
 // Limit articles for testing (reduces API costs and processing time)
-const TEST_TOTAL_ARTICLES_LIMIT = 50; // Total articles to fetch from all feeds
+const TEST_TOTAL_ARTICLES_LIMIT = FETCH_PRESETS.test.totalBudget; // Total articles planned across all feeds (test fetch preset)
 const TEST_SELECTED_ARTICLES_LIMIT = 10; // Articles to select from the limited set
 
 
@@ -26,8 +32,10 @@ const TEST_SELECTED_ARTICLES_LIMIT = 10; // Articles to select from the limited
 /**
  * Sends a test podcast email with limited articles using two-pass pipeline
  * @param recipients - Optional array of email addresses to send to
+ * @param profileId - Optional interest profile id (defaults to INTEREST_PROFILE / the configured default)
+ * @param presetId - Optional episode preset id (defaults to the preset scheduled for today's weekday); its article count is capped at the test limit
  */
-export async function sendTestPodcastEmail(recipients?: string[]): Promise<void> {
+export async function sendTestPodcastEmail(recipients?: string[], profileId?: string, presetId?: string): Promise<void> {
   console.log('🧪 Starting TEST podcast email generation...\n');
   await logProcessStart('Test podcast email generation', `Limited to ${TEST_TOTAL_ARTICLES_LIMIT} total articles, selecting ${TEST_SELECTED_ARTICLES_LIMIT}`);
 
@@ -35,30 +43,59 @@ export async function sendTestPodcastEmail(recipients?: string[]): Promise<void>
   const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
 
   try {
+    startRunCostTracking(`test-${new Date().toISOString()}`);
+
+    const profile = getInterestProfile(profileId);
+    console.log(`🎯 Interest profile: ${profile.name} (${profile.id})`);
+    const preset = presetId ? getEpisodePreset(presetId) : getScheduledPreset();
+    console.log(`🗂️ Episode preset: ${preset.name} (${preset.id}, ${preset.structure})\n`);
+
     // PASS A: Article Selection (with test limit)
     console.log('📡 Step 1: Fetching RSS feeds (TEST MODE - LIMITED)...');
-    const allArticles = await fetchAllFeedsLimited(TEST_TOTAL_ARTICLES_LIMIT);
-    console.log(`✅ Fetched ${allArticles.length} total articles (LIMITED)\n`);
+    const { articles: allArticles, results: feedResults, quarantined, fetchedCount, plannedFeeds } = await fetchArticles(FETCH_PRESETS.test);
+    console.log(`✅ Fetched ${fetchedCount} articles, ${allArticles.length} planned for selection (LIMITED)\n`);
     
-    await logNewsCollection(allArticles.length, 12); // Assuming 12 RSS sources
+    await logNewsCollection(fetchedCount, plannedFeeds.length);
+    await logFeedFetchSummary(
+      feedResults.filter(result => result.status === 'fetched').map(result => result.feedName),
+      feedResults.filter(result => result.status === 'not-modified').map(result => result.feedName),
+      feedResults.filter(result => result.status === 'failed').map(result => `${result.feedName} (${result.error}, ${result.attempts} attempt(s))`)
+    );
+    await logFeedHealthReport(
+      quarantined.map(record => ({
+        name: record.feedName,
+        reason: record.quarantine?.reason || 'Unknown',
+        since: record.quarantine?.since || new Date().toISOString(),
+        retryAt: record.quarantine?.retryAt || new Date().toISOString(),
+      }))
+    );
 
     console.log('🔍 Step 2: Selecting top AI articles (TEST MODE)...');
-    const { selectedIds } = await selectTopArticles(allArticles, { maxCount: TEST_SELECTED_ARTICLES_LIMIT });
-    const selectedArticles = allArticles.filter((article: Article) => selectedIds.includes(article.id));
-    console.log(`✅ Selected ${selectedArticles.length} articles for TEST podcast\n`);
+    const { selectedIds, articles: selectedStories, rationales } = await selectTopArticles(allArticles, { profile, maxCount: Math.min(TEST_SELECTED_ARTICLES_LIMIT, preset.maxArticles) });
+    console.log(`✅ Selected ${selectedIds.length} articles for TEST podcast\n`);
+
+    // Download the full text of the selected articles for a richer script
+    const selectedArticles = await extractArticleContent(selectedStories);
     await logInfo(`Selected ${selectedArticles.length} articles from ${allArticles.length} total articles for test`);
 
     // PASS B: Podcast Generation
     console.log('🤖 Step 3: Generating TEST podcast script from selected articles...');
-    const script = await generatePodcastScriptFromSelected(selectedArticles);
-    const wordCount = script.split(' ').length;
-    console.log(`✅ Generated TEST script: ${script.length} characters (${wordCount} words)\n`);
+    const generated = await generatePodcastScriptFromSelected(selectedArticles, undefined, profile, undefined, preset);
+
+    // Tie the script's claims to the articles; unsupported sentences are rewritten or flagged
+    console.log('🔎 Step 3b: Fact-checking the TEST script against the articles...');
+    const script = await groundPodcastScript(generated, selectedArticles);
+    const wordCount = countWords(script.text);
+    console.log(`✅ Generated TEST ${script.format} script: ${script.text.length} characters (${wordCount} words)\n`);
     
-    await logPodcastGeneration(script.length, wordCount);
+    await logPodcastGeneration(script.text.length, wordCount, script.template, { summary: summarizeValidation(script.validation), passed: script.validation.passed });
+    if (script.grounding) {
+      await logFactCheck(summarizeGrounding(script.grounding), describeGroundingChanges(script.grounding));
+    }
 
     // Step 4: Generate audio file in memory
     console.log('🎤 Step 4: Converting TEST script to speech...');
-    const audioBuffer = await synthesizePodcast(script);
+    const audioBuffer = await synthesizePodcast(script.format === 'dialogue' ? script.turns : script.text);
     console.log(`✅ Generated TEST audio buffer: ${audioBuffer.length} bytes\n`);
 
     // Step 5: Get actual MP3 duration
@@ -72,7 +109,7 @@ export async function sendTestPodcastEmail(recipients?: string[]): Promise<void>
     } catch (error) {
       console.log('⚠️ Could not get actual duration, using estimation...');
       // Fallback to estimation
-      actualDuration = Math.round(script.length / 2.5);
+      actualDuration = Math.round(script.text.length / 2.5);
       fileSize = `${(audioBuffer.length / 1024).toFixed(0)} KB`;
       console.log(`📊 Estimated duration: ${formatDuration(actualDuration)}\n`);
     }
@@ -85,7 +122,7 @@ export async function sendTestPodcastEmail(recipients?: string[]): Promise<void>
 
     // Step 7: Prepare email content with selected articles
     console.log('📧 Step 6: Preparing TEST email content...');
-    const htmlContent = generateEmailContent(selectedArticles, script.length, actualDuration);
+    const htmlContent = generateEmailContent(selectedArticles, script.text.length, actualDuration, rationales, script.grounding, preset);
 
     // Step 8: Determine recipients
     const emailRecipients = recipients || getEmailRecipients();
@@ -94,6 +131,7 @@ export async function sendTestPodcastEmail(recipients?: string[]): Promise<void>
     // Step 9: Send email
     console.log('📤 Step 7: Sending TEST email...');
     const transporter = createTransporter();
+    const show = loadShowConfig();
 
     // Verify connection configuration
     await transporter.verify();
@@ -101,15 +139,15 @@ export async function sendTestPodcastEmail(recipients?: string[]): Promise<void>
 
     // Send email with in-memory attachments
     const info = await transporter.sendMail({
-      from: `"Daily AI News (TEST)" <${process.env.EMAIL_USER}>`,
+      from: `"${show.email.senderName} (TEST)" <${process.env.EMAIL_USER}>`,
       to: emailRecipients[0], // Primary recipient
       bcc: emailRecipients.slice(1), // BCC for additional recipients
-      subject: 'Daily AI News Podcast (TEST MODE)',
+      subject: `${show.email.subject} (TEST MODE)`,
       html: htmlContent,
       attachments: [
         {
           filename: `podcast_test_${timestamp}.txt`,
-          content: script,
+          content: script.text, // Transcript with speaker labels for dialogues
           contentType: 'text/plain',
         },
         {
@@ -124,7 +162,9 @@ export async function sendTestPodcastEmail(recipients?: string[]): Promise<void>
     console.log('📧 Message ID:', info.messageId);
     console.log('📬 Preview URL:', require('nodemailer').getTestMessageUrl(info));
     
-    await logEmailSent(emailRecipients.length, info.messageId || 'Unknown');
+    // Report the run's cost totals with the completion embed
+    const runCosts = finishRunCostTracking('completed');
+    await logEmailSent(emailRecipients.length, info.messageId || 'Unknown', runCosts ? formatRunCosts(runCosts) : undefined);
 
     // No cleanup needed since we're using in-memory attachments
 
@@ -133,15 +173,20 @@ export async function sendTestPodcastEmail(recipients?: string[]): Promise<void>
     
     // Log error to Discord with user mention
     const errorMessage = error instanceof Error ? error.message : String(error);
-    await logError(`Test podcast generation failed: ${errorMessage}`);
+    const runCosts = finishRunCostTracking(error instanceof BudgetExceededError ? 'over-budget' : 'failed');
+    await logError(`Test podcast generation failed: ${errorMessage}`, runCosts ? formatRunCosts(runCosts) : undefined);
     
     if (error instanceof Error) {
       if (error.message.includes('EMAIL_USER') || error.message.includes('EMAIL_PASS')) {
         console.log('\n💡 Tip: Make sure to add your email credentials to the .env file');
       } else if (error.message.includes('OPENAI_API_KEY')) {
         console.log('\n💡 Tip: Make sure to add your OpenAI API key to the .env file');
+      } else if (error.message.includes('LLM_PROVIDER')) {
+        console.log('\n💡 Tip: Make sure to add the settings of your LLM provider (LLM_PROVIDER) to the .env file');
       } else if (error.message.includes('DEEPGRAM_API_KEY')) {
         console.log('\n💡 Tip: Make sure to add your Deepgram API key to the .env file');
+      } else if (error instanceof BudgetExceededError) {
+        console.log('\n💡 Tip: Check the run costs above, or raise maxCostPerRun / maxCostPerDay in config/pricing.json');
       }
     }
     
@@ -160,8 +205,12 @@ async function runTest(): Promise<void> {
   console.log(`   - Mode: TEST (reduced API usage)`);
   console.log(`   - Files: podcast_test_YYYY-MM-DD.*\n`);
 
+  // Optional --preset=<id> (defaults to the preset scheduled for today)
+  const presetArg = process.argv.slice(2).find(arg => arg.startsWith('--preset='));
+  const presetId = presetArg ? presetArg.slice('--preset='.length) : undefined;
+
   try {
-    await sendTestPodcastEmail();
+    await sendTestPodcastEmail(undefined, undefined, presetId);
     console.log('\n🎉 TEST run completed successfully!');
     console.log('💡 This was a TEST run with limited articles for faster execution.');
   } catch (error) {
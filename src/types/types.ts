@@ -4,17 +4,317 @@
 
 export type Article = {
   id: string;          // Stable deterministic id
+  feedId?: string;     // Id of the feed registry entry the article came from
   source: string;
   title: string;
   link: string;
-  pubDate?: string;
+  canonicalUrl?: string; // rel=canonical URL of the page, set once the page has been fetched
+  pubDate?: string;    // ISO 8601 (UTC); undefined when the feed gave no usable date
   summary: string;     // plain text
+  content?: string;    // Extracted article body (plain text), set for selected articles when available
+  relatedSources?: RelatedSource[]; // Other articles about the same story (see core/storyClustering.ts)
+};
+
+/**
+ * Another article about the same story as the article it is attached to
+ */
+export type RelatedSource = {
+  id: string;
+  source: string;      // Registry display name of the outlet
+  title: string;
+  link: string;
+};
+
+/**
+ * Editorial category assigned to each selected article
+ */
+export type ArticleCategory =
+  | 'research'
+  | 'product-launch'
+  | 'policy'
+  | 'funding'
+  | 'open-source';
+
+/**
+ * Why the selector picked an article
+ */
+export type SelectionRationale = {
+  id: string;
+  category: ArticleCategory;
+  reason: string;      // One-line "why it matters"
 };
 
 export type SelectedArticlesResult = {
   selectedIds: string[];
+  articles: Article[]; // Selected articles in selection order, with related sources attached
+  rationales: SelectionRationale[]; // In selection order; stories backfilled from the score ranking have none
+};
+
+/**
+ * Individual signals of the deterministic article score, each between 0 and 1
+ */
+export type ScoreComponents = {
+  recency: number;     // Decays with age (half-life from the scoring config)
+  priority: number;    // Feed priority relative to the highest-priority feed
+  coverage: number;    // How many other outlets reported the same story
+  topics: number;      // Weighted topic keyword matches
+  novelty: number;     // 1 - similarity to stories covered in recent episodes
+};
+
+export type ScoredArticle = {
+  article: Article;
+  score: number;       // Weighted combination of the components (0-1)
+  components: ScoreComponents;
+  matchedTopics: string[];
 };
 
 export type ArticleSelectionOptions = {
   maxCount?: number;
+  excludeCovered?: boolean;    // Skip articles used by earlier episodes (default: true)
+  episodeId?: string;          // Current episode; its own earlier usage is not excluded
+  profile?: InterestProfile;   // Audience to curate for (defaults to the configured default profile)
+};
+
+/**
+ * Named audience interest profile (config/profiles.json)
+ */
+export type InterestProfile = {
+  id: string;
+  name: string;
+  audience: string;            // Who the episode is for, used in the prompts
+  boostTopics: string[];       // Topics to favor in filtering and selection
+  excludeTopics: string[];     // Topics to leave out
+  boostKeywords: string[];     // Keyword fallback: extra terms that make an article relevant
+  excludeKeywords: string[];   // Keyword fallback: terms that make an article irrelevant
+  preferredSources: string[];  // Feed ids to favor when stories are comparable
+  tone: string;                // Tone note for the script
+};
+
+/**
+ * Episode structures: short headlines bulletin, the regular daily briefing, or segmented deep dive
+ */
+export type EpisodeStructure = 'headlines' | 'standard' | 'deep-dive';
+
+/**
+ * Named episode format preset (config/presets.json)
+ */
+export type EpisodePreset = {
+  id: string;
+  name: string;
+  description: string;
+  maxArticles: number;         // Articles the selection picks
+  targetWords?: { min: number; max: number }; // Script length (defaults to the show config's target)
+  structure: EpisodeStructure;
+  templates: Record<string, string>; // Template versions that replace the show config's (prompt variant)
+};
+
+/**
+ * Kinds of sources supported by the source adapters
+ */
+export type SourceType = 'rss' | 'arxiv' | 'hackernews' | 'github-releases';
+
+/**
+ * A single entry of the feed registry (config/feeds.json)
+ */
+export type FeedConfig = {
+  id: string;          // Stable slug, used as key for per-feed state
+  type: SourceType;    // Adapter used to parse the source (defaults to "rss")
+  name: string;        // Display name used in the email and the script
+  url: string;         // Feed or API URL fetched by the adapter
+  enabled: boolean;
+  category: string;
+  priority: number;    // Weight used when ranking articles (1 = neutral)
+  maxItems: number;    // Max items taken from the feed per run
+};
+
+/**
+ * Outcome of fetching a single feed during a run
+ */
+export type FeedFetchResult = {
+  feedId: string;
+  feedName: string;
+  status: 'fetched' | 'not-modified' | 'failed';
+  articles: Article[];
+  attempts: number;            // HTTP attempts made (1 = no retries)
+  latencyMs: number;           // Total time spent, including retries and backoff
+  error?: string;              // Final error when status is 'failed'
+};
+
+/**
+ * Combined result of fetching all feeds
+ */
+export type FeedFetchReport = {
+  articles: Article[];         // All articles, newest first
+  results: FeedFetchResult[];  // One entry per fetched feed
+  quarantined: FeedHealthRecord[]; // Feeds skipped because they are quarantined
+};
+
+/**
+ * Options of a fetch plan (see core/fetchPlanner.ts for the presets)
+ */
+export type FetchPlanOptions = {
+  label?: string;              // Name shown in logs ("daily", "test", ...)
+  totalBudget?: number;        // Max articles returned across all sources
+  perSourceQuota?: number;     // Max articles per source (never above the feed's maxItems)
+  sourceQuotas?: Record<string, number>; // Per-feed-id overrides of perSourceQuota
+  recencyWindow?: boolean;     // Apply the recency window (default true)
+  episodeId?: string;          // Episode being generated (anchors the recency window)
+  includeSources?: string[];   // Only fetch sources matching these feed ids, categories or types
+  excludeSources?: string[];   // Skip sources matching these feed ids, categories or types
+};
+
+/**
+ * Result of running a fetch plan
+ */
+export type FetchPlanReport = FeedFetchReport & {
+  plannedFeeds: string[];      // Ids of the feeds selected by the plan (before quarantine)
+  fetchedCount: number;        // Articles fetched, before the recency window and budget
+  recency?: {
+    cutoff: string;            // ISO timestamp; older articles were dropped
+    droppedOld: number;
+    droppedUndated: number;
+  };
+  droppedOverBudget: number;   // Recent articles cut by the total budget
+};
+
+/**
+ * Health check of a single feed in a single run
+ */
+export type FeedHealthCheck = {
+  at: string;
+  success: boolean;
+  itemCount: number;
+  newestItemAt?: string;       // Publication date of the newest item
+  error?: string;
+};
+
+/**
+ * Persisted health state of a feed
+ */
+export type FeedHealthRecord = {
+  feedId: string;
+  feedName: string;
+  consecutiveFailures: number;
+  lastSuccessAt?: string;
+  newestItemAt?: string;
+  quarantine?: {
+    since: string;
+    reason: string;
+    retryAt: string;           // Feed is probed again after this time
+  };
+  history: FeedHealthCheck[];  // Most recent checks, oldest first
+};
+
+/**
+ * Article as kept in the persistent article store
+ */
+export type StoredArticle = {
+  id: string;
+  firstSeenAt: string;
+  source: string;
+  title: string;
+  link: string;
+  episodes: string[];          // Ids of the episodes that used the article
+};
+
+/**
+ * An episode and the articles it used
+ */
+export type EpisodeRecord = {
+  episodeId: string;
+  at: string;
+  articleIds: string[];
+  templates?: Record<string, string>; // Template name -> version used (missing for older episodes)
+  citations?: ScriptCitation[]; // Sentence-to-article citation map (missing when the fact check was off)
+};
+
+/**
+ * Podcast script formats: one narrator, or two hosts in conversation
+ */
+export type ScriptFormat = 'monologue' | 'dialogue';
+
+/**
+ * One speaker turn of a dialogue script
+ */
+export type ScriptTurn = {
+  speaker: string;             // Host name from the show config
+  text: string;
+};
+
+/**
+ * Generated podcast script
+ */
+export type PodcastScript = {
+  format: ScriptFormat;
+  text: string;                // Script as read (monologue) or transcript with speaker labels (dialogue)
+  turns: ScriptTurn[];         // Speaker turns in order (empty for a monologue)
+  template: string;            // Template used ("podcast-script@v1")
+  validation: ScriptValidationReport;
+  grounding?: GroundingReport;  // Fact check result (missing when the check is off)
+};
+
+/**
+ * A script rule the model broke
+ * Fixed violations were repaired in place; the others are reported back to
+ * the model when the script is regenerated.
+ */
+export type ScriptViolation = {
+  rule: 'markdown' | 'stage-cue' | 'speaker-label' | 'raw-url' | 'opening' | 'closing' | 'length';
+  message: string;
+  fixed: boolean;
+};
+
+/**
+ * Rules a generated script is validated against
+ */
+export type ScriptExpectations = {
+  opening: string;             // Required first sentence
+  closing: string;             // Required sign-off
+  minWords: number;
+  maxWords: number;
+  hosts: string[];             // Dialogue hosts: the first opens, the second signs off
+};
+
+/**
+ * Outcome of validating a generated script
+ */
+export type ScriptValidationReport = {
+  attempts: number;            // Scripts generated (1 = no regeneration)
+  violations: ScriptViolation[][]; // Violations found per attempt
+  remaining: ScriptViolation[]; // Unfixed violations of the script that was used
+  passed: boolean;             // False when the retries ran out and the best attempt was used
+  expectations: ScriptExpectations; // Rules checked (again after fact check rewrites)
+};
+
+/**
+ * Fact check outcome of one script sentence
+ * - grounded: supported by the cited articles
+ * - rewritten: unsupported, replaced by a version limited to the articles
+ * - removed: unsupported and dropped from the script
+ * - ungrounded: unsupported or containing names/numbers found in no article, kept and flagged
+ * - no-claim: greeting, transition or opinion with nothing to check
+ */
+export type CitationStatus = 'grounded' | 'rewritten' | 'removed' | 'ungrounded' | 'no-claim';
+
+/**
+ * One entry of the sentence-to-article citation map
+ */
+export type ScriptCitation = {
+  sentence: string;            // Sentence as it appears in the final script (the original for removed ones)
+  speaker?: string;            // Host of the turn (dialogue only)
+  articleIds: string[];        // Supporting articles
+  status: CitationStatus;
+  original?: string;           // Sentence before it was rewritten
+  unmatched?: string[];        // Names and numbers found in no selected article
+};
+
+/**
+ * Outcome of the fact-grounding pass
+ */
+export type GroundingReport = {
+  mode: 'rewrite' | 'flag';    // Whether unsupported sentences were rewritten or only flagged
+  method: 'llm' | 'lexical';   // Lexical only when the LLM check failed
+  lexicalOnly?: number;        // Sentences checked lexically only because their LLM batch failed
+  citations: ScriptCitation[]; // In script order
+  revertedFor?: ScriptViolation['rule'][]; // Script rules the rewrites would have broken (they were flagged instead)
 };
@@ -0,0 +1,83 @@
+/**
+ * Date utilities for normalizing feed publication dates
+ */
+
+// Offsets for timezone abbreviations that Date.parse does not understand
+const TIMEZONE_OFFSETS: Record<string, string> = {
+  UT: '+0000',
+  UTC: '+0000',
+  GMT: '+0000',
+  Z: '+0000',
+  WET: '+0000',
+  WEST: '+0100',
+  BST: '+0100',
+  CET: '+0100',
+  CEST: '+0200',
+  MET: '+0100',
+  MEST: '+0200',
+  EET: '+0200',
+  EEST: '+0300',
+  IST: '+0530',
+  JST: '+0900',
+  KST: '+0900',
+  AEST: '+1000',
+  AEDT: '+1100',
+  EST: '-0500',
+  EDT: '-0400',
+  CST: '-0600',
+  CDT: '-0500',
+  MST: '-0700',
+  MDT: '-0600',
+  PST: '-0800',
+  PDT: '-0700',
+};
+
+// Dates further in the future than this are treated as invalid
+const MAX_FUTURE_SKEW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rewrites common non-standard date strings into a form Date.parse accepts
+ */
+function normalizeDateString(raw: string): string {
+  let value = raw
+    .trim()
+    .replace(/\s*\([^)]*\)\s*$/, '') // "... +0200 (CEST)"
+    .replace(/\s+/g, ' ');
+
+  // Named timezone abbreviation at the end: "... 10:00:00 CEST"
+  value = value.replace(/\s([A-Z]{1,4})$/, (match, abbreviation: string) => {
+    const offset = TIMEZONE_OFFSETS[abbreviation];
+    return offset ? ` ${offset}` : match;
+  });
+
+  // "2025-10-09 10:00:00" (no zone) -> ISO, interpreted as UTC
+  if (/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(value)) {
+    value = `${value.replace(' ', 'T')}Z`;
+  }
+
+  // Date-only ISO strings are already parsed as UTC by Date.parse
+  return value;
+}
+
+/**
+ * Parses a feed date into a timezone-aware ISO 8601 timestamp (UTC)
+ * @param raw - Date string from the feed (RFC 822, ISO 8601, ...)
+ * @param now - Reference time used to reject far-future dates
+ * @returns ISO timestamp, or undefined when the date is missing or invalid
+ */
+export function parsePubDate(
+  raw: string | undefined | null,
+  now: Date = new Date()
+): string | undefined {
+  if (!raw || !raw.trim()) {
+    return undefined;
+  }
+
+  const time = Date.parse(normalizeDateString(raw));
+
+  if (isNaN(time) || time > now.getTime() + MAX_FUTURE_SKEW_MS) {
+    return undefined;
+  }
+
+  return new Date(time).toISOString();
+}
@@ -0,0 +1,158 @@
+/**
+ * HTTP helpers with per-request timeouts and retries
+ */
+
+import { getNonNegativeIntEnv, getPositiveIntEnv } from './utils';
+
+/**
+ * Error raised for HTTP responses that are treated as failures
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Error raised once every attempt of a request has failed
+ */
+export class RequestFailedError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: number,
+    public readonly latencyMs: number
+  ) {
+    super(message);
+    this.name = 'RequestFailedError';
+  }
+}
+
+export type RetryOptions = {
+  timeoutMs: number; // Per-attempt timeout (covers headers and body)
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // Base delay of the exponential backoff
+};
+
+export type HttpTextResponse = {
+  status: number;
+  headers: Headers;
+  body: string;
+  url: string; // Final URL after redirects
+  attempts: number;
+  latencyMs: number; // Total time including retries and backoff
+};
+
+/**
+ * Returns the default retry options, overridable via environment variables
+ */
+export function getDefaultRetryOptions(): RetryOptions {
+  return {
+    timeoutMs: getPositiveIntEnv('FETCH_TIMEOUT_MS', 15000),
+    maxRetries: getNonNegativeIntEnv('FETCH_MAX_RETRIES', 2),
+    baseDelayMs: getNonNegativeIntEnv('FETCH_RETRY_BASE_DELAY_MS', 1000),
+  };
+}
+
+/**
+ * Computes the backoff delay before a retry (exponential with jitter)
+ * @param attempt - The attempt that just failed (1-based)
+ * @param baseDelayMs - Base delay
+ * @returns Delay in milliseconds, between 50% and 100% of the exponential delay
+ */
+function getBackoffDelay(attempt: number, baseDelayMs: number): number {
+  const exponential = baseDelayMs * 2 ** (attempt - 1);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Performs a single GET request and reads the body, aborting after timeoutMs
+ */
+async function fetchTextOnce(
+  url: string,
+  headers: Record<string, string>,
+  timeoutMs: number
+): Promise<{ status: number; headers: Headers; body: string; url: string }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { headers, signal: controller.signal });
+    const body = await response.text();
+    return {
+      status: response.status,
+      headers: response.headers,
+      body,
+      url: response.url || url,
+    };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Request timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetches a URL as text with a per-attempt timeout and bounded retries
+ *
+ * Network errors, timeouts and 5xx responses are retried with jittered
+ * exponential backoff. Any other status (including 304 and 4xx) is returned
+ * to the caller as-is.
+ * @param url - URL to fetch
+ * @param headers - Request headers
+ * @param options - Timeout and retry options
+ * @returns Response status, headers and body plus attempt count and latency
+ * @throws RequestFailedError with the last error message once retries are exhausted
+ */
+export async function fetchTextWithRetry(
+  url: string,
+  headers: Record<string, string> = {},
+  options: RetryOptions = getDefaultRetryOptions()
+): Promise<HttpTextResponse> {
+  const startedAt = Date.now();
+  const maxAttempts = options.maxRetries + 1;
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = await fetchTextOnce(url, headers, options.timeoutMs);
+
+      if (response.status >= 500) {
+        throw new HttpError(response.status, `HTTP ${response.status}`);
+      }
+
+      return {
+        ...response,
+        attempts: attempt,
+        latencyMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      lastError = error;
+
+      if (attempt < maxAttempts) {
+        const delay = getBackoffDelay(attempt, options.baseDelayMs);
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(
+          `⚠️ Attempt ${attempt}/${maxAttempts} for ${url} failed (${reason}), retrying in ${delay}ms...`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  throw new RequestFailedError(
+    lastError instanceof Error ? lastError.message : String(lastError),
+    maxAttempts,
+    Date.now() - startedAt
+  );
+}
@@ -1,5 +1,6 @@
-import { Client, GatewayIntentBits, EmbedBuilder, ChannelType, SlashCommandBuilder, REST, Routes, MessageFlags } from 'discord.js';
+import { Client, GatewayIntentBits, EmbedBuilder, ChannelType, SlashCommandBuilder, SlashCommandStringOption, REST, Routes, MessageFlags } from 'discord.js';
 import dotenv from 'dotenv';
+import { loadPresetsConfig } from '../core/episodePresets';
 
 // Load environment variables
 dotenv.config();
@@ -100,6 +101,35 @@ function getEmailRecipientsForChoices(): { name: string; value: string }[] {
   return choices;
 }
 
+/**
+ * Get episode presets for slash command choices
+ * Returns no choices when the presets config is invalid (the startup check reports it)
+ */
+function getPresetChoices(): { name: string; value: string }[] {
+  try {
+    return loadPresetsConfig().presets.map(preset => ({ name: `${preset.name} (${preset.id})`, value: preset.id }));
+  } catch (error) {
+    console.warn('⚠️ Could not load episode presets for slash command choices:', error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Configures the optional "preset" option of the podcast slash commands
+ */
+function buildPresetOption(option: SlashCommandStringOption, presetChoices: { name: string; value: string }[]): SlashCommandStringOption {
+  const stringOption = option
+    .setName('preset')
+    .setDescription('Episode format (defaults to the preset scheduled for today)')
+    .setRequired(false);
+
+  presetChoices.forEach(choice => {
+    stringOption.addChoices(choice);
+  });
+
+  return stringOption;
+}
+
 /**
  * Register slash commands with Discord
  */
@@ -109,11 +139,13 @@ async function registerSlashCommands(): Promise<void> {
   }
 
   const emailChoices = getEmailRecipientsForChoices();
+  const presetChoices = getPresetChoices();
 
   const commands = [
     new SlashCommandBuilder()
       .setName('send-podcast')
-      .setDescription('Send daily podcast email to all configured recipients'),
+      .setDescription('Send daily podcast email to all configured recipients')
+      .addStringOption(option => buildPresetOption(option, presetChoices)),
 
     new SlashCommandBuilder()
       .setName('status')
@@ -134,7 +166,8 @@ async function registerSlashCommands(): Promise<void> {
         });
         
         return stringOption;
-      }),
+      })
+      .addStringOption(option => buildPresetOption(option, presetChoices)),
   ];
 
   const rest = new REST({ version: '10' }).setToken(process.env.DISCORD_BOT_TOKEN);
@@ -294,7 +327,56 @@ export async function logNewsCollection(articleCount: number, sourceCount: numbe
   const embed = new EmbedBuilder()
     .setColor(0x0099FF) // Blue
     .setTitle(':newspaper: News Collection')
-    .setDescription(`Collected ${articleCount} articles from ${sourceCount} RSS sources`)
+    .setDescription(`Collected ${articleCount} articles from ${sourceCount} sources`)
+    .setTimestamp();
+
+  await sendDiscordEmbed(embed);
+}
+
+/**
+ * Logs the per-feed fetch summary (fetched, unchanged since last run, failed)
+ */
+export async function logFeedFetchSummary(fetched: string[], unchanged: string[], failed: string[]): Promise<void> {
+  const formatList = (names: string[]): string => (names.length > 0 ? names.join(', ') : 'None');
+
+  const embed = new EmbedBuilder()
+    .setColor(failed.length > 0 ? 0xFFA500 : 0x0099FF) // Orange if any feed failed, blue otherwise
+    .setTitle(':satellite: Feed Fetch Summary')
+    .setDescription(`${fetched.length} fetched, ${unchanged.length} unchanged, ${failed.length} failed`)
+    .addFields(
+      { name: 'Unchanged (304)', value: formatList(unchanged), inline: false },
+      { name: 'Failed', value: formatList(failed), inline: false }
+    )
+    .setTimestamp();
+
+  await sendDiscordEmbed(embed);
+}
+
+/**
+ * Logs the feed health report listing quarantined feeds
+ */
+export async function logFeedHealthReport(quarantined: { name: string; reason: string; since: string; retryAt: string }[]): Promise<void> {
+  if (quarantined.length === 0) {
+    return;
+  }
+
+  const toTimestamp = (iso: string): string => `<t:${Math.floor(new Date(iso).getTime() / 1000)}:R>`;
+
+  const embed = new EmbedBuilder()
+    .setColor(0xFFA500) // Orange
+    .setTitle(':construction: Feed Health Report')
+    .setDescription(`${quarantined.length} feed(s) quarantined and skipped. Fix or replace these sources in config/feeds.json.`)
+    .addFields(
+      // Discord allows at most 25 fields per embed and 256/1024 characters per field name/value
+      quarantined.slice(0, 25).map(feed => {
+        const timing = `\nQuarantined ${toTimestamp(feed.since)} • next probe ${toTimestamp(feed.retryAt)}`;
+        return {
+          name: feed.name.slice(0, 256),
+          value: `${feed.reason.slice(0, 1024 - timing.length)}${timing}`,
+          inline: false,
+        };
+      })
+    )
     .setTimestamp();
 
   await sendDiscordEmbed(embed);
@@ -302,10 +384,12 @@ export async function logNewsCollection(articleCount: number, sourceCount: numbe
 
 /**
  * Logs podcast generation information
+ * @param template - Optional prompt template used ("podcast-script@v1")
+ * @param validation - Optional script validation summary and whether every rule was met
  */
-export async function logPodcastGeneration(scriptLength: number, wordCount: number): Promise<void> {
+export async function logPodcastGeneration(scriptLength: number, wordCount: number, template?: string, validation?: { summary: string; passed: boolean }): Promise<void> {
   const embed = new EmbedBuilder()
-    .setColor(0x0099FF) // Blue
+    .setColor(validation && !validation.passed ? 0xFFA500 : 0x0099FF) // Orange if the script still breaks rules, blue otherwise
     .setTitle(':headphones: Podcast Generated')
     .setDescription(`Generated podcast script with ${wordCount} words`)
     .addFields(
@@ -313,6 +397,39 @@ export async function logPodcastGeneration(scriptLength: number, wordCount: numb
     )
     .setTimestamp();
 
+  if (template) {
+    embed.addFields({ name: 'Template', value: template, inline: true });
+  }
+
+  if (validation) {
+    embed.addFields({ name: 'Validation', value: validation.summary, inline: false });
+  }
+
+  await sendDiscordEmbed(embed);
+}
+
+/**
+ * Logs the fact check of the podcast script
+ * @param summary - Sentence counts per status ("31 grounded, 2 rewritten, ...")
+ * @param changes - Rewritten, removed and flagged sentences
+ */
+export async function logFactCheck(summary: string, changes: { status: string; sentence: string; note?: string }[]): Promise<void> {
+  const flagged = changes.filter(change => change.status === 'ungrounded').length;
+
+  const embed = new EmbedBuilder()
+    .setColor(flagged > 0 ? 0xFFA500 : 0x0099FF) // Orange if any sentence is still ungrounded, blue otherwise
+    .setTitle(':mag: Fact Check')
+    .setDescription(summary)
+    .addFields(
+      // Discord allows at most 25 fields per embed and 1024 characters per value
+      changes.slice(0, 25).map(change => ({
+        name: change.status,
+        value: (change.note ? `${change.sentence}\n${change.note}` : change.sentence).slice(0, 1024),
+        inline: false,
+      }))
+    )
+    .setTimestamp();
+
   await sendDiscordEmbed(embed);
 }
 
@@ -335,8 +452,9 @@ export async function logAudioSynthesis(duration: string, fileSize: string): Pro
 
 /**
  * Logs email sending information
+ * @param runCosts - Optional cost totals of the run (per stage)
  */
-export async function logEmailSent(recipientCount: number, messageId: string): Promise<void> {
+export async function logEmailSent(recipientCount: number, messageId: string, runCosts?: string): Promise<void> {
   const embed = new EmbedBuilder()
     .setColor(0x00FF00) // Green
     .setTitle(':incoming_envelope: Email Sent')
@@ -344,6 +462,10 @@ export async function logEmailSent(recipientCount: number, messageId: string): P
     .addFields({ name: 'Message ID', value: messageId, inline: false })
     .setTimestamp();
 
+  if (runCosts) {
+    embed.addFields({ name: 'Run Cost', value: runCosts, inline: false });
+  }
+
   await sendDiscordEmbed(embed);
 }
 
@@ -440,11 +562,14 @@ async function handleSendPodcastCommand(interaction: any): Promise<void> {
     // Get all configured email recipients (same as daily runner)
     const allRecipients = getEmailRecipients();
     
+    // Optional episode preset (defaults to the preset scheduled for today)
+    const presetId = interaction.options.getString('preset') || undefined;
+
     // Send to all configured recipients
-    await sendDailyPodcastEmail(allRecipients);
+    await sendDailyPodcastEmail(allRecipients, undefined, presetId);
     
     await interaction.editReply({
-      content: `✅ Daily podcast email sent successfully to all ${allRecipients.length} configured recipient(s): ${allRecipients.join(', ')}`
+      content: `✅ Daily podcast email${presetId ? ` (${presetId})` : ''} sent successfully to all ${allRecipients.length} configured recipient(s): ${allRecipients.join(', ')}`
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -505,14 +630,15 @@ async function handleTestPodcastCommand(interaction: any): Promise<void> {
   await interaction.deferReply({ flags: MessageFlags.Ephemeral });
 
   const recipient = interaction.options.getString('recipient');
+  const presetId = interaction.options.getString('preset') || undefined;
 
   try {
     // Dynamic import to avoid circular dependency
     const testRunner = await import('../scheduler/testRunner');
-    await testRunner.sendTestPodcastEmail([recipient]);
+    await testRunner.sendTestPodcastEmail([recipient], undefined, presetId);
     
     await interaction.editReply({
-      content: `✅ Test podcast email sent successfully to ${recipient}`
+      content: `✅ Test podcast email${presetId ? ` (${presetId})` : ''} sent successfully to ${recipient}`
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,114 @@
+/**
+ * Local state persistence for data that must survive between runs
+ *
+ * State lives as JSON or JSON Lines files in STATE_DIR (defaults to
+ * output/state, which is mounted as a volume in docker-compose).
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const DEFAULT_STATE_DIR = 'output/state';
+
+/**
+ * Returns the absolute path of the state directory
+ */
+export function getStateDir(): string {
+  return path.resolve(
+    process.cwd(),
+    process.env.STATE_DIR || DEFAULT_STATE_DIR
+  );
+}
+
+/**
+ * Returns the absolute path of a file inside the state directory
+ */
+export function getStatePath(fileName: string): string {
+  return path.join(getStateDir(), fileName);
+}
+
+/**
+ * Reads a JSON state file
+ * @param fileName - File name inside the state directory
+ * @param fallback - Value returned when the file is missing or unreadable
+ * @returns Parsed state or the fallback
+ */
+export function readJsonState<T>(fileName: string, fallback: T): T {
+  const filePath = getStatePath(fileName);
+
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error) {
+    console.warn(
+      `⚠️ Could not read state file ${filePath}, starting fresh:`,
+      error
+    );
+    return fallback;
+  }
+}
+
+/**
+ * Writes a JSON state file atomically (temp file + rename)
+ * @param fileName - File name inside the state directory
+ * @param data - Data to serialize
+ */
+export function writeJsonState(fileName: string, data: unknown): void {
+  const filePath = getStatePath(fileName);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Reads an append-only JSON Lines state file
+ * Malformed lines (e.g. a partial write after a crash) are skipped.
+ * @param fileName - File name inside the state directory
+ * @returns Parsed records in file order
+ */
+export function readJsonLines<T>(fileName: string): T[] {
+  const filePath = getStatePath(fileName);
+
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const records: T[] = [];
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+
+  for (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      console.warn(`⚠️ Skipping malformed line in ${filePath}`);
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Appends records to a JSON Lines state file
+ * @param fileName - File name inside the state directory
+ * @param records - Records to append (one line each)
+ */
+export function appendJsonLines(fileName: string, records: unknown[]): void {
+  if (records.length === 0) {
+    return;
+  }
+
+  const filePath = getStatePath(fileName);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(
+    filePath,
+    records.map((record) => JSON.stringify(record)).join('\n') + '\n'
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Text similarity utilities (TF-IDF vectors and cosine similarity)
+ *
+ * Used to compare articles locally, without an embeddings API.
+ */
+
+export type TermVector = Map<string, number>;
+
+// Words that carry no information about which story a text covers
+const STOPWORDS = new Set(
+  [
+    'a an and are as at be by for from has have how in into is it its new',
+    'of on or our says that the their this to was we what when who why will',
+    'with you your now here can more about after over just than these they',
+    'but not all out up',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+/**
+ * Splits text into lowercase content words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Builds L2-normalized TF-IDF vectors (sublinear term frequency, smoothed IDF)
+ * @param documents - Tokens of each document
+ * @returns One vector per document, in the same order
+ */
+export function buildTfIdfVectors(documents: string[][]): TermVector[] {
+  const termCounts = documents.map((tokens) => {
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return termCounts.map((counts) => {
+    const vector: TermVector = new Map();
+    let norm = 0;
+
+    for (const [term, count] of counts) {
+      const idf =
+        Math.log(
+          (documents.length + 1) / ((documentFrequency.get(term) || 0) + 1)
+        ) + 1;
+      const weight = (1 + Math.log(count)) * idf;
+      vector.set(term, weight);
+      norm += weight * weight;
+    }
+
+    norm = Math.sqrt(norm) || 1;
+    for (const [term, weight] of vector) {
+      vector.set(term, weight / norm);
+    }
+    return vector;
+  });
+}
+
+/**
+ * Cosine similarity of two normalized vectors (0 = unrelated, 1 = identical)
+ */
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of small) {
+    dot += weight * (large.get(term) || 0);
+  }
+  return dot;
+}
@@ -47,3 +47,41 @@ export function truncateText(text: string, maxLength: number): string {
   }
   return text.substring(0, maxLength - 3) + '...';
 }
+
+/**
+ * Decodes common named and numeric HTML entities
+ * @param text - Text containing HTML entities
+ * @returns Decoded text
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&hellip;/g, '...')
+    .replace(/&mdash;/g, '—')
+    .replace(/&ndash;/g, '–')
+    .replace(/&rsquo;/g, '’')
+    .replace(/&lsquo;/g, '‘')
+    .replace(/&rdquo;/g, '”')
+    .replace(/&ldquo;/g, '“')
+    .replace(/&amp;/g, '&'); // Last, so "&amp;lt;" stays "&lt;"
+}
+
+/**
+ * Escapes text for HTML
+ * @param text - Text to escape
+ * @returns Escaped text, safe inside element content and quoted attributes
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,207 @@
+/**
+ * URL utilities for canonicalizing article links
+ *
+ * The same story often reaches us under several URLs (tracking parameters,
+ * AMP pages, feed-proxy redirects, http vs https, trailing slashes). Article
+ * ids hash the canonical form so these collapse into one. Links that are
+ * already clean come out unchanged (trailing slash included), which keeps
+ * their ids stable. Deduplication and clustering compare URL keys, which also
+ * ignore the trailing slash.
+ */
+
+import { Article } from '../types/types';
+
+// Query parameters that only carry tracking information
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_hsenc',
+  '_hsmi',
+  'mkt_tok',
+  'ncid',
+  'cmpid',
+  'sr_share',
+  'ref',
+  'ref_src',
+  'ref_url',
+  'amp',
+  'outputtype',
+]);
+
+// Redirect/proxy services and the query parameters that carry their target URL
+// (other sites may use the same parameter names for something else)
+const REDIRECT_HOSTS: Record<string, string[]> = {
+  'news.google.com': ['url'],
+  'www.google.com': ['url', 'q'],
+  'google.com': ['url', 'q'],
+  'l.facebook.com': ['u'],
+  'lm.facebook.com': ['u'],
+  'l.instagram.com': ['u'],
+  'out.reddit.com': ['url'],
+  'www.linkedin.com': ['url'],
+  'slack-redir.net': ['url'],
+};
+
+/**
+ * Returns true when a query parameter is pure tracking noise
+ */
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Unwraps redirect and proxy URLs of known redirectors (e.g. https://news.google.com/url?url=...)
+ * @returns The wrapped target URL, or undefined if the URL is not a redirect
+ */
+function unwrapRedirect(url: URL): URL | undefined {
+  // Google AMP cache: https://example-com.cdn.ampproject.org/c/s/example.com/path
+  if (url.hostname.endsWith('.cdn.ampproject.org')) {
+    const match = url.pathname.match(/^\/[a-z]\/(s\/)?(.+)$/);
+    if (match) {
+      try {
+        return new URL(`${match[1] ? 'https' : 'http'}://${match[2]}`);
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  for (const param of REDIRECT_HOSTS[url.hostname.toLowerCase()] || []) {
+    const value = url.searchParams.get(param);
+    if (value && /^https?:\/\//i.test(value)) {
+      try {
+        return new URL(value);
+      } catch {
+        // Not a usable URL, keep looking
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Removes AMP markers from a path ("/amp", "/amp/", ".amp.html", "/amp/story")
+ */
+function stripAmpPath(pathname: string): string {
+  return pathname
+    .replace(/\.amp(\.html?)$/i, '$1')
+    .replace(/\/amp\/?$/i, '/')
+    .replace(/^\/amp\//i, '/');
+}
+
+/**
+ * Canonicalizes an article URL
+ * - http is upgraded to https, host is lowercased, default ports are dropped
+ * - wrappers of known redirect/proxy services and the Google AMP cache are unwrapped
+ * - utm_* and other tracking parameters, AMP markers and fragments are removed
+ * - the path is otherwise kept as is (see getUrlKey for comparisons)
+ * @param link - Raw article link
+ * @returns Canonical URL, or the trimmed input when it is not a valid http(s) URL
+ */
+export function canonicalizeUrl(link: string): string {
+  const trimmed = (link || '').trim();
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+
+  // Follow nested wrappers (a proxy URL pointing at an AMP cache URL, ...)
+  for (let depth = 0; depth < 3; depth++) {
+    const target = unwrapRedirect(url);
+    if (!target) break;
+    url = target;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return trimmed;
+  }
+
+  url.protocol = 'https:';
+  url.hostname = url.hostname.toLowerCase();
+  url.port = '';
+  url.hash = '';
+  url.username = '';
+  url.password = '';
+
+  // Filter the raw query so the remaining parameters keep their original encoding
+  const query = url.search
+    .slice(1)
+    .split('&')
+    .filter((pair) => pair && !isTrackingParam(pair.split('=')[0]))
+    .join('&');
+
+  url.pathname = stripAmpPath(url.pathname);
+
+  return `${url.origin}${url.pathname}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Returns the key used to compare URLs: the canonical URL without the
+ * trailing slash of non-root paths ("/story/" and "/story" are the same page)
+ * Only for comparisons; article ids hash the canonical URL itself.
+ * @param link - Raw or canonical URL
+ */
+export function getUrlKey(link: string): string {
+  const canonical = canonicalizeUrl(link);
+  const match = canonical.match(/^(https:\/\/[^/?]+)(\/[^?]*)(\?.*)?$/);
+  if (!match || match[2].length <= 1) {
+    return canonical;
+  }
+  return `${match[1]}${match[2].replace(/\/+$/, '') || '/'}${match[3] || ''}`;
+}
+
+/**
+ * Reads the rel=canonical link of a fetched HTML page
+ * @param html - Page HTML
+ * @param pageUrl - URL the page was fetched from (for relative hrefs)
+ * @returns Canonicalized URL, or undefined when the page declares none (or a bogus one)
+ */
+export function extractCanonicalUrl(
+  html: string,
+  pageUrl: string
+): string | undefined {
+  for (const match of html.matchAll(/<link\b[^>]*>/gi)) {
+    const tag = match[0];
+    if (!/\brel\s*=\s*["']?canonical\b/i.test(tag)) {
+      continue;
+    }
+
+    const href = tag.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+    const value = href ? href[1] || href[2] || href[3] : undefined;
+    if (!value) {
+      return undefined;
+    }
+
+    try {
+      const canonical = new URL(value, pageUrl);
+      // Some sites point every page at their home page; that is not the article
+      if (canonical.pathname === '/' && new URL(pageUrl).pathname.length > 1) {
+        return undefined;
+      }
+      return canonicalizeUrl(canonical.toString());
+    } catch {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the URL key used to identify an article's story: the key of its
+ * rel=canonical URL when the page has been fetched, otherwise of its link
+ */
+export function getArticleUrlKey(article: Article): string {
+  return getUrlKey(article.canonicalUrl || article.link);
+}
@@ -55,6 +55,124 @@ export function logError(message: string, ...args: any[]): void {
   console.error(message, ...args);
 }
 
+/**
+ * Maps items through an async function with at most `limit` calls in flight
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async mapper
+ * @returns Results in the same order as the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  // An invalid limit (NaN) would start no workers at all
+  const workerCount = Number.isFinite(limit)
+    ? Math.max(1, Math.min(limit, items.length))
+    : 1;
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
+
+/**
+ * Reads a number from an environment variable
+ * Invalid values are reported and replaced by the default
+ * @param name - Environment variable name
+ * @param defaultValue - Value used when the variable is unset or invalid
+ * @param isValid - Accepts the parsed value
+ * @param expected - Description of valid values for the warning
+ */
+function readNumberEnv(
+  name: string,
+  defaultValue: number,
+  isValid: (value: number) => boolean,
+  expected: string
+): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || !isValid(value)) {
+    console.warn(
+      `⚠️ ${name} must be ${expected} (got "${raw}"), using ${defaultValue}`
+    );
+    return defaultValue;
+  }
+  return value;
+}
+
+/**
+ * Reads a positive integer from an environment variable
+ * Invalid values (not a number, zero or negative) are reported and replaced by the default
+ */
+export function getPositiveIntEnv(name: string, defaultValue: number): number {
+  return readNumberEnv(
+    name,
+    defaultValue,
+    (value) => Number.isInteger(value) && value >= 1,
+    'a positive integer'
+  );
+}
+
+/**
+ * Reads a non-negative integer (e.g. a retry count) from an environment variable
+ * Invalid values (not a number or negative) are reported and replaced by the default
+ */
+export function getNonNegativeIntEnv(
+  name: string,
+  defaultValue: number
+): number {
+  return readNumberEnv(
+    name,
+    defaultValue,
+    (value) => Number.isInteger(value) && value >= 0,
+    'a non-negative integer'
+  );
+}
+
+/**
+ * Reads a positive number (e.g. hours or days, fractions allowed) from an environment variable
+ * Invalid values (not a number, zero or negative) are reported and replaced by the default
+ */
+export function getPositiveNumberEnv(
+  name: string,
+  defaultValue: number
+): number {
+  return readNumberEnv(
+    name,
+    defaultValue,
+    (value) => value > 0,
+    'a positive number'
+  );
+}
+
+/**
+ * Reads a fraction in (0, 1] (e.g. a similarity threshold) from an environment variable
+ * Invalid values (not a number, zero, negative or above 1) are reported and replaced by the default
+ */
+export function getFractionEnv(name: string, defaultValue: number): number {
+  return readNumberEnv(
+    name,
+    defaultValue,
+    (value) => value > 0 && value <= 1,
+    'a number above 0 and at most 1'
+  );
+}
+
 /**
  * Get environment-specific configuration
  */